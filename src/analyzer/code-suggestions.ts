@@ -0,0 +1,75 @@
+/**
+ * Code Suggestions
+ * Checks that suggested unified diffs apply cleanly to the local checkout
+ */
+
+import type { CodeSuggestion } from '../types';
+
+/**
+ * Keep only diffs that `git apply --check` accepts against the working copy
+ * Files whose diff doesn't apply keep their description but lose the diff
+ */
+export async function validateSuggestion(
+  repoPath: string,
+  suggestion: CodeSuggestion
+): Promise<CodeSuggestion> {
+  const files = await Promise.all(
+    suggestion.files.map(async (file) => {
+      if (!file.diff) return file;
+
+      const error = await checkDiff(repoPath, file.path, file.diff);
+      if (error === null) return file;
+
+      console.warn(`[SUGGEST] Dropping diff for ${file.path}: ${error}`);
+      return { path: file.path, suggestion: file.suggestion };
+    })
+  );
+
+  return { ...suggestion, files };
+}
+
+/**
+ * Returns null if the diff applies, otherwise the reason it doesn't
+ */
+export async function checkDiff(repoPath: string, path: string, diff: string): Promise<string | null> {
+  const patch = diff.endsWith('\n') ? diff : `${diff}\n`;
+
+  // A suggestion for one file must not touch others
+  const targets = diffTargets(patch);
+  if (targets.length === 0) return 'no file headers';
+  if (targets.some((t) => t !== path)) return `touches ${targets.join(', ')}`;
+
+  const proc = Bun.spawn(['git', 'apply', '--check', `-p${stripLevel(patch)}`, '-'], {
+    cwd: repoPath,
+    stdin: new Blob([patch]),
+    stdout: 'ignore',
+    stderr: 'pipe',
+  });
+  const [stderr, exitCode] = await Promise.all([new Response(proc.stderr).text(), proc.exited]);
+
+  return exitCode === 0 ? null : stderr.trim() || `git apply exited with ${exitCode}`;
+}
+
+/**
+ * File paths named in the ---/+++ headers, without a/ b/ prefixes
+ */
+function diffTargets(patch: string): string[] {
+  const lines = patch.split('\n');
+  const paths = new Set<string>();
+
+  lines.forEach((line, i) => {
+    // Headers come in ---/+++ pairs; a lone "--- x" is a removed "-- x" line
+    if (!line.startsWith('--- ') || !lines[i + 1]?.startsWith('+++ ')) return;
+
+    for (const header of [line, lines[i + 1]!]) {
+      const path = header.slice(4).split('\t')[0]!.trim();
+      if (path && path !== '/dev/null') paths.add(path.replace(/^[ab]\//, ''));
+    }
+  });
+  return [...paths];
+}
+
+// Models don't always use git's a/ b/ prefixes
+function stripLevel(patch: string): number {
+  return /^\+\+\+ b\//m.test(patch) ? 1 : 0;
+}
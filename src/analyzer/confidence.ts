@@ -0,0 +1,121 @@
+/**
+ * Confidence Scoring
+ * Combines analysis signals into a score and maps it onto a per-repo action policy
+ */
+
+import type {
+  AnalysisResult,
+  ConfidencePolicy,
+  ConfidenceSignals,
+  IssueClassification,
+} from '../types';
+import { RESPONSE_TEXT, type ResponseText } from '../claude/response-text';
+
+export type ConfidenceBand = 'apply' | 'suggest' | 'skip';
+
+export const DEFAULT_CONFIDENCE_POLICY: ConfidencePolicy = {
+  autoApplyThreshold: 0.75,
+  skipBelow: 0.3,
+  samples: 1,
+};
+
+// Relative weight of each signal; missing signals are left out and the rest renormalized
+const SIGNAL_WEIGHTS = {
+  schema: 0.3,
+  selfAssessment: 0.3,
+  agreement: 0.25,
+  repoContext: 0.15,
+};
+
+const SCHEMA_SCORES: Record<ConfidenceSignals['schema'], number> = {
+  valid: 1,
+  repaired: 0.6,
+  failed: 0,
+};
+
+/**
+ * Compute a 0-1 confidence score from analysis signals
+ */
+export function computeConfidence(signals: ConfidenceSignals): number {
+  // A classification that never validated can't be trusted, whatever else says
+  if (signals.schema === 'failed') return 0;
+
+  const components: Array<[weight: number, score: number]> = [
+    [SIGNAL_WEIGHTS.schema, SCHEMA_SCORES[signals.schema]],
+    [SIGNAL_WEIGHTS.repoContext, signals.hasRepoContext ? 1 : 0.5],
+  ];
+  if (signals.selfAssessment !== undefined) {
+    components.push([SIGNAL_WEIGHTS.selfAssessment, signals.selfAssessment]);
+  }
+  if (signals.agreement !== undefined) {
+    components.push([SIGNAL_WEIGHTS.agreement, signals.agreement]);
+  }
+
+  const totalWeight = components.reduce((sum, [weight]) => sum + weight, 0);
+  const score = components.reduce((sum, [weight, value]) => sum + weight * value, 0) / totalWeight;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Share of sampled classifications that agree with the primary one (type + priority)
+ */
+export function computeAgreement(
+  primary: IssueClassification,
+  samples: IssueClassification[]
+): number | undefined {
+  if (samples.length === 0) return undefined;
+
+  const agreeing = samples.filter(
+    (s) => s.type === primary.type && s.priority === primary.priority
+  ).length;
+  return agreeing / samples.length;
+}
+
+/**
+ * Decide what to do with an analysis given the repo's policy
+ */
+export function resolveConfidenceBand(
+  confidence: number,
+  policy: ConfidencePolicy = DEFAULT_CONFIDENCE_POLICY
+): ConfidenceBand {
+  if (confidence >= policy.autoApplyThreshold) return 'apply';
+  if (confidence >= policy.skipBelow) return 'suggest';
+  return 'skip';
+}
+
+/**
+ * Apply the confidence policy to an analysis
+ * Returns labels to apply and the response to post (null = don't respond)
+ */
+export function applyConfidencePolicy(
+  analysis: AnalysisResult,
+  policy: ConfidencePolicy = DEFAULT_CONFIDENCE_POLICY,
+  text: ResponseText = RESPONSE_TEXT.ko
+): { band: ConfidenceBand; labels: string[]; response: string | null } {
+  const band = resolveConfidenceBand(analysis.confidence, policy);
+
+  switch (band) {
+    case 'apply':
+      return { band, labels: analysis.labels, response: analysis.response };
+    case 'suggest':
+      return {
+        band,
+        labels: [],
+        response: appendSuggestedLabels(analysis.response, analysis.labels, analysis.confidence, text),
+      };
+    case 'skip':
+      return { band, labels: [], response: null };
+  }
+}
+
+function appendSuggestedLabels(
+  response: string,
+  labels: string[],
+  confidence: number,
+  text: ResponseText
+): string {
+  if (labels.length === 0) return response;
+
+  const formatted = labels.map((l) => `\`${l}\``).join(', ');
+  return `${response}\n\n---\n\n${text.suggestedLabels(formatted, Math.round(confidence * 100))}`;
+}
@@ -3,8 +3,9 @@
  * Gathers relevant context from the repository for better analysis
  */
 
-import { createGitHubClient, type IGitHubClient } from '../github/client';
+import type { IGitHubClient } from '../github/client';
 import type { IssueContext, RelatedIssue } from '../types';
+import type { IssueIndex } from './issue-index';
 
 export interface CollectedContext {
   relatedIssues: RelatedIssue[];
@@ -22,9 +23,14 @@ export interface CollectedContext {
 
 export class ContextCollector {
   private githubClient: IGitHubClient;
+  private issueIndex?: IssueIndex;
 
-  constructor(githubClient?: IGitHubClient) {
-    this.githubClient = githubClient || createGitHubClient();
+  /**
+   * @param issueIndex - Local similarity index; falls back to GitHub keyword search without it
+   */
+  constructor(githubClient: IGitHubClient, issueIndex?: IssueIndex) {
+    this.githubClient = githubClient;
+    this.issueIndex = issueIndex;
   }
 
   /**
@@ -32,16 +38,16 @@ export class ContextCollector {
    */
   async collect(context: IssueContext): Promise<CollectedContext> {
     const { owner, name } = context.repository;
-    const keywords = this.extractKeywords(context.issue.title, context.issue.body);
 
     // Collect in parallel
     const [relatedIssues, recentPRs] = await Promise.all([
-      this.findRelatedIssues(owner, name, keywords),
+      this.findRelatedIssues(context),
       this.getRecentPRs(owner, name),
     ]);
 
     return {
-      relatedIssues,
+      // Search results include the issue itself
+      relatedIssues: relatedIssues.filter((r) => r.number !== context.issue.number),
       recentPRs,
     };
   }
@@ -60,13 +66,24 @@ export class ContextCollector {
     return [...new Set(words)].slice(0, 5).join(' ');
   }
 
-  private async findRelatedIssues(
-    owner: string,
-    repo: string,
-    keywords: string
-  ): Promise<RelatedIssue[]> {
+  private async findRelatedIssues(context: IssueContext): Promise<RelatedIssue[]> {
+    const { owner, name, full_name } = context.repository;
+
+    if (this.issueIndex) {
+      try {
+        await this.issueIndex.ensureBackfilled(owner, name, this.githubClient);
+        return this.issueIndex.search(full_name, context.issue, {
+          limit: 5,
+          excludeNumber: context.issue.number,
+        });
+      } catch (error) {
+        console.warn(`[INDEX] Local search failed for ${full_name}, using GitHub search:`, error);
+      }
+    }
+
     try {
-      return await this.githubClient.findSimilarIssues(owner, repo, keywords, 5);
+      const keywords = this.extractKeywords(context.issue.title, context.issue.body);
+      return await this.githubClient.findSimilarIssues(owner, name, keywords, 5);
     } catch {
       return [];
     }
@@ -78,13 +95,14 @@ export class ContextCollector {
         number: number;
         title: string;
         state: string;
-        mergedAt?: string | null;
+        mergedAt?: string | null; // gh CLI
+        merged_at?: string | null; // REST API
       }>;
       return prs.map((pr) => ({
         number: pr.number,
         title: pr.title,
         state: pr.state,
-        merged: pr.mergedAt !== null,
+        merged: Boolean(pr.mergedAt ?? pr.merged_at),
       }));
     } catch {
       return [];
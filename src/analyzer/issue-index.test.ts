@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'bun:test';
+import { IssueIndex } from './issue-index';
+import type { IGitHubClient } from '../github/client';
+import type { IssueSummary } from '../types';
+
+const REPO = 'o/r';
+
+function issue(
+  number: number,
+  title: string,
+  body: string | null = null,
+  state: 'open' | 'closed' = 'open'
+): IssueSummary {
+  return { number, title, body, state };
+}
+
+function indexWith(issues: IssueSummary[]): IssueIndex {
+  const index = new IssueIndex(':memory:');
+  for (const i of issues) index.upsert(REPO, i);
+  return index;
+}
+
+describe('IssueIndex', () => {
+  test('ranks issues by similarity to the query', () => {
+    const index = indexWith([
+      issue(1, 'Login button does nothing on Safari', 'Clicking login in Safari has no effect.'),
+      issue(2, 'Dark mode colors are wrong', 'Sidebar text is unreadable in dark mode.'),
+      issue(3, 'Login fails with Safari', 'Safari users cannot log in.', 'closed'),
+    ]);
+
+    const results = index.search(REPO, { title: 'Safari login button does nothing', body: null });
+
+    expect(results.map((r) => r.number)).toEqual([1, 3]);
+    expect(results[0]!.similarity).toBeGreaterThanOrEqual(results[1]!.similarity);
+    expect(results[1]!.status).toBe('closed');
+  });
+
+  test('weighs title terms above body terms', () => {
+    const index = indexWith([
+      issue(1, 'Export to CSV', 'Reports should support spreadsheets.'),
+      issue(2, 'Reports page', 'Add an option to export reports to CSV.'),
+    ]);
+
+    const [first] = index.search(REPO, { title: 'CSV export', body: null });
+
+    expect(first?.number).toBe(1);
+  });
+
+  test('ignores code blocks and URLs in bodies', () => {
+    const index = indexWith([
+      issue(
+        1,
+        'Crash on startup',
+        '```\nTypeError webpack loader config\n```\nSee https://example.com/webpack'
+      ),
+    ]);
+
+    expect(index.search(REPO, { title: 'webpack loader config', body: null })).toEqual([]);
+  });
+
+  test('applies limit, excludeNumber and minSimilarity', () => {
+    const index = indexWith([
+      issue(1, 'Upload fails for large files'),
+      issue(2, 'Upload fails for large images'),
+      issue(3, 'Upload fails on slow networks'),
+    ]);
+    const query = { title: 'Upload fails for large files', body: null };
+
+    expect(index.search(REPO, query, { limit: 1 }).map((r) => r.number)).toEqual([1]);
+    expect(index.search(REPO, query, { excludeNumber: 1 }).map((r) => r.number)).not.toContain(1);
+    expect(index.search(REPO, query, { minSimilarity: 0.99 }).map((r) => r.number)).toEqual([1]);
+  });
+
+  test('reflects updates and removals', () => {
+    const index = indexWith([issue(1, 'Memory leak in worker pool')]);
+    const query = { title: 'worker pool memory leak', body: null };
+    expect(index.search(REPO, query)).toHaveLength(1);
+
+    index.upsert(REPO, issue(1, 'Typo in README'));
+    expect(index.search(REPO, query)).toEqual([]);
+
+    index.upsert(REPO, issue(2, 'Memory leak in worker pool'));
+    index.remove(REPO, 2);
+    expect(index.search(REPO, query)).toEqual([]);
+    expect(index.stats(REPO)).toEqual({ issues: 1, backfilled: false });
+  });
+
+  test('backfills once even with concurrent callers', async () => {
+    const index = new IssueIndex(':memory:');
+    let calls = 0;
+    const client = {
+      listIssues: async () => {
+        calls++;
+        await Bun.sleep(5);
+        return [issue(1, 'Search is slow')];
+      },
+    } as unknown as IGitHubClient;
+
+    await Promise.all([
+      index.ensureBackfilled('o', 'r', client),
+      index.ensureBackfilled('o', 'r', client),
+    ]);
+    await index.ensureBackfilled('o', 'r', client);
+
+    expect(calls).toBe(1);
+    expect(index.stats(REPO)).toEqual({ issues: 1, backfilled: true });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Issue Index
+ * Local per-repo index of issue titles/bodies for duplicate detection
+ * Similarity is TF-IDF cosine similarity (0-1), persisted in SQLite
+ */
+
+import type { Database } from 'bun:sqlite';
+import { openDatabase } from '../storage/database';
+import type { IGitHubClient } from '../github/client';
+import type { IssueSummary, RelatedIssue } from '../types';
+
+interface IssueRow {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+}
+
+interface TokenizedIssue extends IssueSummary {
+  terms: Map<string, number>;
+}
+
+// Title terms count more than body terms
+const TITLE_WEIGHT = 2;
+
+export class IssueIndex {
+  private db: Database;
+  // Tokenized documents per repo, rebuilt lazily after changes
+  private cache: Map<string, TokenizedIssue[]> = new Map();
+  private backfills: Map<string, Promise<void>> = new Map();
+
+  constructor(dbPath: string) {
+    this.db = openDatabase(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS issues (
+        repo TEXT NOT NULL,
+        number INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT,
+        state TEXT NOT NULL,
+        PRIMARY KEY (repo, number)
+      );
+      CREATE TABLE IF NOT EXISTS backfills (
+        repo TEXT PRIMARY KEY,
+        completed_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Add or update an issue
+   */
+  upsert(repo: string, issue: IssueSummary): void {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO issues (repo, number, title, body, state)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(repo, issue.number, issue.title, issue.body, issue.state);
+    this.cache.delete(repo);
+  }
+
+  /**
+   * Remove an issue (e.g. deleted or transferred)
+   */
+  remove(repo: string, number: number): void {
+    this.db.query('DELETE FROM issues WHERE repo = ? AND number = ?').run(repo, number);
+    this.cache.delete(repo);
+  }
+
+  isBackfilled(repo: string): boolean {
+    return this.db.query('SELECT 1 FROM backfills WHERE repo = ?').get(repo) !== null;
+  }
+
+  /**
+   * Backfill the index from the GitHub API once per repo
+   * Concurrent callers share the same in-flight backfill
+   */
+  async ensureBackfilled(owner: string, name: string, client: IGitHubClient): Promise<void> {
+    const repo = `${owner}/${name}`;
+    if (this.isBackfilled(repo)) return;
+
+    let pending = this.backfills.get(repo);
+    if (!pending) {
+      pending = this.backfill(owner, name, client).finally(() => this.backfills.delete(repo));
+      this.backfills.set(repo, pending);
+    }
+    await pending;
+  }
+
+  private async backfill(owner: string, name: string, client: IGitHubClient): Promise<void> {
+    const repo = `${owner}/${name}`;
+    console.log(`[INDEX] Backfilling issues for ${repo}...`);
+
+    const issues = await client.listIssues(owner, name);
+    const insert = this.db.transaction((items: IssueSummary[]) => {
+      for (const issue of items) {
+        this.db
+          .query(
+            `INSERT OR REPLACE INTO issues (repo, number, title, body, state)
+             VALUES (?, ?, ?, ?, ?)`
+          )
+          .run(repo, issue.number, issue.title, issue.body, issue.state);
+      }
+      this.db
+        .query('INSERT OR REPLACE INTO backfills (repo, completed_at) VALUES (?, ?)')
+        .run(repo, Date.now());
+    });
+    insert(issues);
+    this.cache.delete(repo);
+
+    console.log(`[INDEX] Indexed ${issues.length} issues for ${repo}`);
+  }
+
+  /**
+   * Find the most similar indexed issues
+   */
+  search(
+    repo: string,
+    query: { title: string; body: string | null },
+    options: { limit?: number; excludeNumber?: number; minSimilarity?: number } = {}
+  ): RelatedIssue[] {
+    const { limit = 5, excludeNumber, minSimilarity = 0.1 } = options;
+    const docs = this.load(repo);
+    if (docs.length === 0) return [];
+
+    const idf = computeIdf(docs);
+    const queryVector = weigh(termsOf(query.title, query.body), idf);
+
+    return docs
+      .filter((doc) => doc.number !== excludeNumber)
+      .map((doc) => ({
+        doc,
+        similarity: cosine(queryVector, weigh(doc.terms, idf)),
+      }))
+      .filter(({ similarity }) => similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(({ doc, similarity }) => ({
+        number: doc.number,
+        title: doc.title,
+        similarity: Math.round(similarity * 100) / 100,
+        status: doc.state,
+      }));
+  }
+
+  /**
+   * Get index statistics
+   */
+  stats(repo: string): { issues: number; backfilled: boolean } {
+    const row = this.db
+      .query<{ count: number }, [string]>('SELECT COUNT(*) AS count FROM issues WHERE repo = ?')
+      .get(repo);
+    return { issues: row?.count ?? 0, backfilled: this.isBackfilled(repo) };
+  }
+
+  private load(repo: string): TokenizedIssue[] {
+    const cached = this.cache.get(repo);
+    if (cached) return cached;
+
+    const docs = this.db
+      .query<IssueRow, [string]>('SELECT number, title, body, state FROM issues WHERE repo = ?')
+      .all(repo)
+      .map((row) => ({ ...row, terms: termsOf(row.title, row.body) }));
+
+    this.cache.set(repo, docs);
+    return docs;
+  }
+}
+
+interface IdfTable {
+  weights: Map<string, number>;
+  unseen: number; // idf for terms that appear in no indexed document
+}
+
+function computeIdf(docs: TokenizedIssue[]): IdfTable {
+  const df = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of doc.terms.keys()) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+
+  const weights = new Map<string, number>();
+  for (const [term, count] of df) {
+    weights.set(term, Math.log((docs.length + 1) / (count + 1)) + 1);
+  }
+  return { weights, unseen: Math.log(docs.length + 1) + 1 };
+}
+
+function weigh(terms: Map<string, number>, idf: IdfTable): Map<string, number> {
+  const vector = new Map<string, number>();
+  for (const [term, count] of terms) {
+    vector.set(term, (1 + Math.log(count)) * (idf.weights.get(term) ?? idf.unseen));
+  }
+  return vector;
+}
+
+function termsOf(title: string, body: string | null): Map<string, number> {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number) => {
+    for (const token of tokenize(text)) {
+      terms.set(token, (terms.get(token) ?? 0) + weight);
+    }
+  };
+
+  add(title, TITLE_WEIGHT);
+  add(stripMarkdownNoise(body || ''), 1);
+  return terms;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w) && !/^\d+$/.test(w));
+}
+
+// Code blocks and URLs dominate term counts without saying much about the issue
+function stripMarkdownNoise(text: string): string {
+  return text.replace(/```[\s\S]*?```/g, ' ').replace(/https?:\/\/\S+/g, ' ');
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    const other = b.get(term);
+    if (other) dot += weight * other;
+  }
+  if (dot === 0) return 0;
+
+  const norm = (v: Map<string, number>) =>
+    Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+const STOP_WORDS = new Set([
+  'the', 'this', 'that', 'with', 'from', 'have', 'been', 'and', 'for',
+  'are', 'but', 'not', 'you', 'all', 'can', 'was', 'when', 'where',
+  'will', 'would', 'could', 'should', 'what', 'which', 'there', 'their',
+  'they', 'them', 'some', 'other', 'about', 'into', 'more', 'also', 'is',
+  'it', 'in', 'on', 'to', 'of', 'an', 'be', 'or', 'as', 'at', 'by', 'if',
+  'do', 'does', 'did', 'has', 'had', 'how', 'why', 'any',
+]);
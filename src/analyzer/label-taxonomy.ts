@@ -0,0 +1,262 @@
+/**
+ * Label Taxonomy
+ * Maps classifications onto the repository's labels and keeps suggestions within them
+ */
+
+import type { OctokitClient } from '../github/client';
+import type {
+  IssueClassification,
+  LabelDefinition,
+  LabelInfo,
+  LabelTaxonomyConfig,
+  RepoConfig,
+} from '../types';
+
+/**
+ * Used when a repo has no taxonomy configured; matches GitHub's default labels
+ */
+export const DEFAULT_LABEL_TAXONOMY: LabelTaxonomyConfig = {
+  type: {
+    bug: 'bug',
+    feature: 'enhancement',
+    enhancement: 'enhancement',
+    documentation: 'documentation',
+    question: 'question',
+  },
+};
+
+// Color for synced labels without a definition
+const DEFAULT_LABEL_COLOR = 'ededed';
+
+// Repo labels change rarely, refetch at most every 5 minutes
+const LABEL_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface RepoLabels {
+  existing: string[]; // label names in the repository
+  allowed: string[]; // labels Claude may suggest beyond the taxonomy mapping
+}
+
+export interface LabelResolution {
+  labels: string[]; // existing labels to apply, with the repository's casing
+  dropped: string[]; // mapped labels missing from the repository, or disallowed suggestions
+}
+
+/**
+ * Labels a classification maps to under the taxonomy
+ */
+export function taxonomyLabels(
+  classification: IssueClassification,
+  taxonomy: LabelTaxonomyConfig
+): string[] {
+  const area = classification.area?.toLowerCase();
+  const areaLabel = area
+    ? Object.entries(taxonomy.area ?? {}).find(([key]) => key.toLowerCase() === area)?.[1]
+    : undefined;
+
+  return [
+    taxonomy.type?.[classification.type],
+    taxonomy.priority?.[classification.priority],
+    areaLabel,
+  ].filter((l): l is string => Boolean(l));
+}
+
+/**
+ * Every label name the taxonomy can produce
+ */
+export function taxonomyLabelNames(taxonomy: LabelTaxonomyConfig): string[] {
+  return unique([
+    ...Object.values(taxonomy.type ?? {}),
+    ...Object.values(taxonomy.priority ?? {}),
+    ...Object.values(taxonomy.area ?? {}),
+    ...(taxonomy.definitions ?? []).map((d) => d.name),
+  ]);
+}
+
+/**
+ * Labels Claude may suggest on its own: existing repo labels outside the taxonomy
+ * (taxonomy labels follow from the classification itself)
+ */
+export function allowedSuggestions(existing: string[], taxonomy: LabelTaxonomyConfig): string[] {
+  if (taxonomy.allowUnmapped === false) return [];
+
+  const reserved = new Set(taxonomyLabelNames(taxonomy).map((l) => l.toLowerCase()));
+  return existing.filter((l) => !reserved.has(l.toLowerCase()));
+}
+
+/**
+ * Combine taxonomy labels with Claude's suggestions, keeping only labels that exist
+ * GitHub label names are case-insensitive, so matching is too
+ */
+export function resolveLabels(
+  classification: IssueClassification,
+  suggested: string[],
+  repoLabels: RepoLabels,
+  taxonomy: LabelTaxonomyConfig
+): LabelResolution {
+  const existing = new Map(repoLabels.existing.map((l) => [l.toLowerCase(), l]));
+  const allowed = new Set(repoLabels.allowed.map((l) => l.toLowerCase()));
+
+  const labels: string[] = [];
+  const dropped: string[] = [];
+
+  for (const label of taxonomyLabels(classification, taxonomy)) {
+    const match = existing.get(label.toLowerCase());
+    if (match) labels.push(match);
+    else dropped.push(label);
+  }
+  for (const label of suggested) {
+    // Already applied via the taxonomy
+    if (labels.some((l) => l.toLowerCase() === label.toLowerCase())) continue;
+
+    const match = allowed.has(label.toLowerCase()) ? existing.get(label.toLowerCase()) : undefined;
+    if (match) labels.push(match);
+    else dropped.push(label);
+  }
+
+  return { labels: unique(labels), dropped: unique(dropped) };
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((v) => {
+    const key = v.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+export class LabelManager {
+  // Repository labels per repo
+  private cache: Map<string, { labels: LabelInfo[]; fetchedAt: number }> = new Map();
+  // Taxonomy last synced per repo, so config changes trigger a new sync
+  private synced: Map<string, string> = new Map();
+
+  /**
+   * Get the repo's labels and the subset Claude may suggest
+   * Syncs the taxonomy first when enabled
+   */
+  async repoLabels(config: RepoConfig, client: OctokitClient): Promise<RepoLabels> {
+    const taxonomy = config.labels ?? DEFAULT_LABEL_TAXONOMY;
+    if (taxonomy.sync) {
+      await this.syncIfChanged(config, taxonomy, client);
+    }
+
+    const existing = (await this.fetch(config, client)).map((l) => l.name);
+    return { existing, allowed: allowedSuggestions(existing, taxonomy) };
+  }
+
+  /**
+   * Resolve the labels to apply for a classification, logging anything dropped
+   */
+  resolve(
+    config: RepoConfig,
+    repoLabels: RepoLabels,
+    classification: IssueClassification,
+    suggested: string[]
+  ): LabelResolution {
+    const resolution = resolveLabels(
+      classification,
+      suggested,
+      repoLabels,
+      config.labels ?? DEFAULT_LABEL_TAXONOMY
+    );
+    if (resolution.dropped.length > 0) {
+      console.log(
+        `[LABELS] Dropped for ${config.owner}/${config.name}: ${resolution.dropped.join(', ')}`
+      );
+    }
+    return resolution;
+  }
+
+  /**
+   * Create missing taxonomy labels and update colors/descriptions that drifted
+   */
+  async sync(
+    config: RepoConfig,
+    client: OctokitClient
+  ): Promise<{ created: string[]; updated: string[] }> {
+    const taxonomy = config.labels ?? DEFAULT_LABEL_TAXONOMY;
+    const repoKey = `${config.owner}/${config.name}`;
+    const existing = new Map(
+      (await this.fetch(config, client, true)).map((l) => [l.name.toLowerCase(), l])
+    );
+    const definitions = new Map(
+      (taxonomy.definitions ?? []).map((d) => [d.name.toLowerCase(), d])
+    );
+
+    const created: string[] = [];
+    const updated: string[] = [];
+
+    for (const name of taxonomyLabelNames(taxonomy)) {
+      const definition: LabelDefinition = definitions.get(name.toLowerCase()) ?? { name };
+      const current = existing.get(name.toLowerCase());
+
+      if (!current) {
+        await client.createLabel(config.owner, config.name, {
+          ...definition,
+          color: normalizeColor(definition.color) ?? DEFAULT_LABEL_COLOR,
+        });
+        created.push(name);
+      } else if (drifted(current, definition)) {
+        await client.updateLabel(config.owner, config.name, {
+          name: current.name,
+          color: normalizeColor(definition.color) ?? current.color,
+          description: definition.description ?? current.description ?? undefined,
+        });
+        updated.push(current.name);
+      }
+    }
+
+    this.cache.delete(repoKey);
+    if (created.length > 0 || updated.length > 0) {
+      console.log(
+        `[LABELS] Synced ${repoKey}: created [${created.join(', ')}], updated [${updated.join(', ')}]`
+      );
+    }
+
+    return { created, updated };
+  }
+
+  private async syncIfChanged(
+    config: RepoConfig,
+    taxonomy: LabelTaxonomyConfig,
+    client: OctokitClient
+  ): Promise<void> {
+    const repoKey = `${config.owner}/${config.name}`;
+    const fingerprint = JSON.stringify(taxonomy);
+    if (this.synced.get(repoKey) === fingerprint) return;
+
+    try {
+      await this.sync(config, client);
+      this.synced.set(repoKey, fingerprint);
+    } catch (error) {
+      // Missing labels are dropped instead, so a failed sync doesn't block the issue
+      console.warn(`[LABELS] Sync failed for ${repoKey}:`, error);
+    }
+  }
+
+  private async fetch(config: RepoConfig, client: OctokitClient, force = false): Promise<LabelInfo[]> {
+    const repoKey = `${config.owner}/${config.name}`;
+    const cached = this.cache.get(repoKey);
+    if (!force && cached && Date.now() - cached.fetchedAt < LABEL_CACHE_TTL_MS) {
+      return cached.labels;
+    }
+
+    const labels = await client.listLabels(config.owner, config.name);
+    this.cache.set(repoKey, { labels, fetchedAt: Date.now() });
+    return labels;
+  }
+}
+
+function normalizeColor(color?: string): string | undefined {
+  return color?.replace(/^#/, '').toLowerCase();
+}
+
+function drifted(current: LabelInfo, definition: LabelDefinition): boolean {
+  const color = normalizeColor(definition.color);
+  return (
+    (color !== undefined && color !== current.color.toLowerCase()) ||
+    (definition.description !== undefined && definition.description !== (current.description ?? ''))
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Pull Request Collector
+ * Builds a PullRequestContext (metadata + changed files) from the Pulls API
+ */
+
+import type { OctokitClient } from '../github/client';
+import type { IssueContext, PullRequestContext } from '../types';
+
+export class PullRequestCollector {
+  private githubClient: OctokitClient;
+
+  constructor(githubClient: OctokitClient) {
+    this.githubClient = githubClient;
+  }
+
+  /**
+   * Fetch a pull request and its changed files
+   */
+  async collect(
+    repository: IssueContext['repository'],
+    pullNumber: number
+  ): Promise<PullRequestContext> {
+    const { owner, name } = repository;
+
+    const [pr, files] = await Promise.all([
+      this.githubClient.getPullRequest(owner, name, pullNumber),
+      this.githubClient.listPullRequestFiles(owner, name, pullNumber),
+    ]);
+
+    return {
+      issue: {
+        number: pr.number,
+        title: pr.title,
+        body: pr.body,
+        user: pr.user?.login || 'unknown',
+        labels: pr.labels.map((l) => l.name),
+        created_at: pr.created_at,
+        html_url: pr.html_url,
+      },
+      repository,
+      pullRequest: {
+        base: { ref: pr.base.ref, sha: pr.base.sha },
+        head: { ref: pr.head.ref, sha: pr.head.sha },
+        draft: pr.draft ?? false,
+        additions: pr.additions,
+        deletions: pr.deletions,
+      },
+      files,
+    };
+  }
+}
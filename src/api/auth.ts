@@ -0,0 +1,126 @@
+/**
+ * Admin API Authentication
+ * Scoped API keys, stored as SHA-256 hashes, checked by Hono middleware
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { MiddlewareHandler } from 'hono';
+import { z } from 'zod';
+
+export const API_SCOPES = ['read', 'repo-admin', 'analyze'] as const;
+export type ApiScope = (typeof API_SCOPES)[number];
+
+export const DEFAULT_API_KEYS_PATH = './data/api-keys.json';
+
+const KEY_PREFIX = 'frt_';
+
+const apiKeyRecordSchema = z.object({
+  id: z.string().min(1), // label for logs, e.g. "ci" or "dashboard"
+  hash: z.string().regex(/^sha256:[0-9a-f]{64}$/),
+  scopes: z.array(z.enum(API_SCOPES)).min(1),
+  createdAt: z.string().optional(),
+});
+
+export type ApiKeyRecord = z.infer<typeof apiKeyRecordSchema>;
+
+/**
+ * Keys are random, so a plain SHA-256 is enough (no password-style stretching needed)
+ */
+export function hashApiKey(key: string): string {
+  return `sha256:${createHash('sha256').update(key).digest('hex')}`;
+}
+
+export function generateApiKey(): string {
+  return `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+}
+
+export class ApiKeyStore {
+  private path: string;
+  private keys: ApiKeyRecord[] = [];
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Load hashed keys from disk; a missing file means no keys (admin API locked)
+   */
+  async load(): Promise<void> {
+    const file = Bun.file(this.path);
+    if (!(await file.exists())) {
+      this.keys = [];
+      return;
+    }
+
+    const result = z.array(apiKeyRecordSchema).safeParse(await file.json());
+    if (!result.success) {
+      throw new Error(
+        `Invalid API key file ${this.path}: ${result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', ')}`
+      );
+    }
+    this.keys = result.data;
+  }
+
+  /**
+   * Create a key with the given scopes and persist its hash
+   * The plaintext key is only returned here
+   */
+  async create(id: string, scopes: ApiScope[]): Promise<string> {
+    if (this.keys.some((k) => k.id === id)) {
+      throw new Error(`API key "${id}" already exists`);
+    }
+
+    const key = generateApiKey();
+    this.keys.push({ id, hash: hashApiKey(key), scopes, createdAt: new Date().toISOString() });
+    await Bun.write(this.path, JSON.stringify(this.keys, null, 2));
+    return key;
+  }
+
+  /**
+   * Find the record for a presented key
+   */
+  verify(key: string): ApiKeyRecord | null {
+    const presented = Buffer.from(hashApiKey(key));
+    return (
+      this.keys.find((k) => {
+        const stored = Buffer.from(k.hash);
+        return stored.length === presented.length && timingSafeEqual(stored, presented);
+      }) ?? null
+    );
+  }
+}
+
+/**
+ * Require an API key with the given scope
+ * Accepts "Authorization: Bearer <key>" or "X-API-Key: <key>"
+ */
+export function requireScope(store: ApiKeyStore, scope: ApiScope): MiddlewareHandler {
+  return async (c, next) => {
+    const authorization = c.req.header('Authorization');
+    const key = authorization?.startsWith('Bearer ')
+      ? authorization.slice('Bearer '.length).trim()
+      : c.req.header('X-API-Key');
+
+    if (!key) {
+      c.header('WWW-Authenticate', 'Bearer');
+      return c.json({ success: false, error: 'API key required' }, 401);
+    }
+
+    const record = store.verify(key);
+    if (!record) {
+      c.header('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return c.json({ success: false, error: 'Invalid API key' }, 401);
+    }
+
+    if (!record.scopes.includes(scope)) {
+      console.warn(`[AUTH] Key "${record.id}" lacks scope ${scope} for ${c.req.method} ${c.req.path}`);
+      return c.json({ success: false, error: `API key lacks the "${scope}" scope` }, 403);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Create an admin API key
+ * Usage: bun run api-key <id> <scope...>   (scopes: read, repo-admin, analyze)
+ * The key is printed once; only its hash is stored
+ */
+
+import { API_SCOPES, ApiKeyStore, DEFAULT_API_KEYS_PATH, type ApiScope } from './auth';
+
+const [id, ...scopes] = process.argv.slice(2);
+
+if (!id || scopes.length === 0) {
+  console.error(`Usage: bun run api-key <id> <scope...>\nScopes: ${API_SCOPES.join(', ')}`);
+  process.exit(1);
+}
+
+const unknown = scopes.filter((s) => !(API_SCOPES as readonly string[]).includes(s));
+if (unknown.length > 0) {
+  console.error(`Unknown scopes: ${unknown.join(', ')} (expected ${API_SCOPES.join(', ')})`);
+  process.exit(1);
+}
+
+const path = process.env.API_KEYS_PATH || DEFAULT_API_KEYS_PATH;
+const store = new ApiKeyStore(path);
+await store.load();
+const key = await store.create(id, scopes as ApiScope[]);
+
+console.log(`Created API key "${id}" [${scopes.join(', ')}] in ${path}`);
+console.log(`\n  ${key}\n`);
+console.log('Store it now: it cannot be shown again.');
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { IssueContext } from '../types';
+
+// Scripted Claude responses, consumed in order; prompts sent are recorded
+let responses: string[] = [];
+let prompts: string[] = [];
+
+mock.module('claude-code-js', () => ({
+  ClaudeCode: class {
+    newSession() {
+      return {
+        prompt: async (options: { prompt: string }) => {
+          prompts.push(options.prompt);
+          return { result: responses.shift() ?? '' };
+        },
+      };
+    }
+  },
+}));
+
+const { ClaudeAgent } = await import('./agent');
+
+const context: IssueContext = {
+  issue: {
+    number: 1,
+    title: 'Crash on startup',
+    body: 'The server exits right after it starts.',
+    user: 'octocat',
+    labels: [],
+    created_at: '2026-01-01T00:00:00Z',
+    html_url: 'https://github.com/o/r/issues/1',
+  },
+  repository: {
+    owner: 'o',
+    name: 'r',
+    full_name: 'o/r',
+    default_branch: 'main',
+    clone_url: 'https://github.com/o/r.git',
+  },
+};
+
+describe('ClaudeAgent structured output', () => {
+  beforeEach(() => {
+    responses = [];
+    prompts = [];
+  });
+
+  test('accepts a valid classification on the first attempt', async () => {
+    responses = ['```json\n{"type": "bug", "priority": "high", "suggestedLabels": ["crash"]}\n```'];
+
+    const outcome = await new ClaudeAgent().classifyIssue(context);
+
+    expect(outcome.classification).toEqual({ type: 'bug', priority: 'high', area: undefined });
+    expect(outcome.suggestedLabels).toEqual(['crash']);
+    expect(outcome.validation).toEqual({ status: 'valid', attempts: 1 });
+    expect(prompts).toHaveLength(1);
+  });
+
+  test('repairs an invalid classification by re-asking with the errors', async () => {
+    responses = [
+      '{"type": "crash", "priority": "high"}',
+      '{"type": "bug", "priority": "high"}',
+    ];
+
+    const outcome = await new ClaudeAgent().classifyIssue(context);
+
+    expect(outcome.classification.type).toBe('bug');
+    expect(outcome.validation).toEqual({ status: 'repaired', attempts: 2 });
+    expect(prompts).toHaveLength(2);
+    expect(prompts[1]).toContain('- type: ');
+  });
+
+  test('reports a failure when the repair round is invalid too', async () => {
+    responses = ['not json', '{"type": "bug"}'];
+
+    const outcome = await new ClaudeAgent().classifyIssue(context);
+
+    expect(outcome.classification).toEqual({ type: 'other', priority: 'medium' });
+    expect(outcome.validation.status).toBe('failed');
+    expect(outcome.validation.errors).toHaveLength(1);
+    expect(outcome.validation.errors?.[0]).toStartWith('priority: ');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Prompt Templates
+ * Per-repo prompt customization: variable interpolation and response language
+ */
+
+import type { IssueContext, PromptConfig } from '../types';
+
+export const DEFAULT_PROMPT_CONFIG: Required<Pick<PromptConfig, 'language' | 'tone'>> = {
+  language: 'ko',
+  tone: 'Be concise and professional',
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  ko: 'Korean',
+  en: 'English',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  ru: 'Russian',
+  pt: 'Portuguese',
+  vi: 'Vietnamese',
+};
+
+/**
+ * Interpolate {{variables}} from the issue context
+ * e.g. "{{issue.user}}", "{{repository.full_name}}"; unknown variables are left as-is
+ */
+export function renderTemplate(template: string, context: IssueContext): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>(
+        (obj, key) =>
+          obj && typeof obj === 'object' ? (obj as Record<string, unknown>)[key] : undefined,
+        context
+      );
+
+    if (value === undefined || value === null) return match;
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  });
+}
+
+/**
+ * Resolve the response language code for an issue
+ * 'auto' matches the issue author's language, falling back to the default
+ */
+export function resolveLanguage(config: PromptConfig | undefined, context: IssueContext): string {
+  const language = config?.language ?? DEFAULT_PROMPT_CONFIG.language;
+  if (language !== 'auto') return language;
+
+  return (
+    detectLanguage(`${context.issue.title}\n${context.issue.body || ''}`) ??
+    DEFAULT_PROMPT_CONFIG.language
+  );
+}
+
+export function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? code;
+}
+
+/**
+ * Detect the dominant language of a text from its script
+ * Latin script is assumed to be English; returns null if there's nothing to go on
+ */
+export function detectLanguage(text: string): string | null {
+  // Code blocks and URLs say nothing about the author's language
+  const prose = text.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`]*`|https?:\/\/\S+/g, ' ');
+
+  const count = (pattern: RegExp) => (prose.match(pattern) || []).length;
+  const kana = count(/[\u3040-\u30ff]/g);
+  const han = count(/[\u4e00-\u9fff]/g);
+
+  const scores: Array<[string, number]> = [
+    ['ko', count(/[\uac00-\ud7af\u1100-\u11ff]/g)],
+    // Kana means Japanese even when kanji (shared with Chinese) dominates
+    ['ja', kana > 0 ? kana + han : 0],
+    ['zh', kana > 0 ? 0 : han],
+    ['ru', count(/[\u0400-\u04ff]/g)],
+    // Latin letters are ~3x as frequent per word as Hangul/CJK characters
+    ['en', Math.floor(count(/[a-zA-Z]/g) / 3)],
+  ];
+
+  const [best, score] = scores.reduce((a, b) => (b[1] > a[1] ? b : a));
+  return score > 0 ? best : null;
+}
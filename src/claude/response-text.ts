@@ -0,0 +1,196 @@
+/**
+ * Response Text
+ * Fixed text the bot posts on GitHub, by response language (non-Korean uses English)
+ * Model output is generated in the resolved language; everything around it comes from here
+ */
+
+import type { IssueContext, PromptConfig } from '../types';
+import { resolveLanguage } from './prompt-template';
+
+const ko = {
+  // Analysis responses
+  disclaimer: '이 응답은 AI가 자동으로 생성했습니다. 정확하지 않을 수 있으니 참고용으로 활용해주세요.',
+  related: '관련 이슈 / PR',
+  relatedIssues: '관련 이슈',
+  recentPRs: '최근 PR',
+  open: '열림',
+  closed: '닫힘',
+  similarity: '유사도',
+  otherComments: '기타 코멘트',
+  suggestedChanges: '제안 코드 변경',
+  diffOmitted: '저장소에 적용되지 않아 diff를 생략했습니다',
+  blocked: '생성된 응답에 비밀 키 등 민감한 정보가 포함된 것으로 보여 게시하지 않았습니다. 메인테이너에게 문의해주세요.',
+  suggestedLabels: (labels: string, confidence: number) =>
+    `> 💡 **제안 라벨** (신뢰도 ${confidence}%): ${labels}\n>\n> _신뢰도가 자동 적용 기준보다 낮아 라벨을 직접 추가하지 않았습니다. 메인테이너가 확인 후 적용해주세요._`,
+  stickyHistory: (count: number) => `📝 이전 응답 기록 (${count})`,
+  answerCandidate: (author: string, url: string) =>
+    `💡 **답변 후보**: [@${author}님의 댓글](${url})이 질문에 대한 답변으로 보입니다. 해결되었다면 해당 댓글을 답변으로 표시해주세요.`,
+
+  // Notices
+  duplicate: (number: number, title: string, similarity: number) =>
+    `> 🔁 **중복 이슈 가능성**\n>\n> 이 이슈는 #${number} (${title})와 중복일 가능성이 있습니다 (유사도 ${similarity}%).\n\n기존 이슈를 확인해주시고, 다른 문제라면 차이점을 알려주세요.`,
+  configError: (path: string, sha: string, error: string) =>
+    `> ⚠️ **\`${path}\` 설정 오류**\n>\n> 기본 브랜치(\`${sha}\`)의 설정 파일이 올바르지 않아 서버 기본 설정으로 동작합니다.\n\n\`\`\`\n${error}\n\`\`\`\n\n설정 파일을 수정하면 다음 이벤트부터 자동으로 반영됩니다.`,
+  denied: (username: string, who: string) =>
+    `@${username} 죄송합니다. 이 저장소에서는 ${who}만 봇을 호출할 수 있습니다. 도움이 필요하면 메인테이너에게 요청해주세요.`,
+  deniedOrgMembers: '조직 멤버',
+  deniedCollaborators: (permission: string) => `\`${permission}\` 이상 권한이 있는 협업자`,
+  deniedAllowList: '허용된 사용자',
+  deniedUser: (username: string) =>
+    `@${username} 죄송합니다. 이 저장소에서는 봇을 호출할 수 없습니다. 도움이 필요하면 메인테이너에게 요청해주세요.`,
+
+  // Progress
+  placeholder: '⏳ 요청을 확인했습니다. 분석 중이니 잠시만 기다려주세요...',
+  retrying: '⏳ 일시적인 오류가 발생해 다시 시도하고 있습니다. 잠시만 기다려주세요...',
+  failed: '⚠️ 요청을 처리하는 중 오류가 발생해 응답하지 못했습니다. 잠시 후 다시 멘션하거나 메인테이너에게 문의해주세요.',
+
+  // Commands
+  unknownCommand: (name: string) => `\`/${name}\`은(는) 알 수 없는 명령어입니다.`,
+  usage: '사용법',
+  helpTitle: '사용 가능한 명령어',
+  helpColumns: '| 명령어 | 설명 |',
+  helpFreeForm: (botUsername: string) =>
+    `명령어 없이 \`@${botUsername}\` 뒤에 질문을 작성하면 자유 형식으로 답변합니다.`,
+  commands: {
+    triage: '이슈를 분류하고 라벨과 함께 분석 응답을 작성',
+    label: '이슈를 분류하고 라벨만 추가',
+    summarize: '이슈와 댓글 논의를 요약',
+    duplicates: '유사하거나 중복된 이슈 검색',
+    explain: '저장소의 파일/디렉토리를 설명 (코드베이스 분석이 설정된 저장소만)',
+    fix: '이슈를 수정하는 draft PR 생성 (자동 수정이 활성화된 저장소, 쓰기 권한 이상)',
+    correct: '봇이 붙인 라벨을 바로잡기 (쓰기 권한 이상, 라벨 수정이 활성화된 저장소만)',
+    help: '사용 가능한 명령어 목록',
+  } as Record<string, string>,
+  lowConfidence: (confidence: number) =>
+    `분석 신뢰도가 낮아 (${confidence}%) 자동 분류 결과를 게시하지 않았습니다. 메인테이너의 확인이 필요합니다.`,
+  classificationFailed: '이슈 분류 결과를 검증하지 못해 라벨을 추가하지 않았습니다.',
+  classificationSummary: (type: string, priority: string) => `**분류:** ${type} / **우선순위:** ${priority}`,
+  noLabelsToAdd: '저장소에 있는 라벨 중 추가할 라벨을 찾지 못했습니다.',
+  labelsAdded: (labels: string) => `다음 라벨을 추가했습니다: ${labels}`,
+  noSimilarIssues: '유사한 이슈를 찾지 못했습니다.',
+  similarIssues: '유사한 이슈',
+  explainUnavailable: '이 저장소는 코드베이스 분석이 설정되어 있지 않습니다.',
+  explainPathRequired: '설명할 경로를 하나 지정해주세요.',
+  explainRelativePath: '저장소 내부의 상대 경로만 지정할 수 있습니다.',
+  explainCheckoutFailed: '저장소를 가져오지 못해 지금은 설명할 수 없습니다. 잠시 후 다시 시도해주세요.',
+  fixDisabled: '이 저장소는 자동 수정(`/fix`)이 활성화되어 있지 않습니다.',
+  fixOpened: (number: number, url: string) =>
+    `수정 사항을 draft PR #${number}로 올렸습니다. 리뷰 후 병합해주세요.\n\n${url}`,
+  fixNoChanges: '자동으로 수정할 수 있는 변경을 찾지 못했습니다.',
+  fixVerificationFailed: (command: string) =>
+    `수정을 시도했지만 검증(\`${command}\`)에 실패해 PR을 만들지 않았습니다.`,
+  fixVerificationOutput: '검증 출력',
+  fixPullRequestNotice: '> 🤖 이 PR은 `/fix` 요청으로 자동 생성된 draft입니다. 반드시 사람이 리뷰한 뒤 병합해주세요.',
+  fixChanges: '변경 내용',
+  fixVerification: '검증',
+  fixVerificationPassed: (command: string) => `\`${command}\` 통과`,
+  fixNoVerification: '검증 명령이 설정되어 있지 않습니다.',
+  fixBlocked: (rules: string) =>
+    `수정 내용에 비밀 값, 서버 경로 또는 git 설정 변경(${rules})이 있어 브랜치를 push하지 않았습니다.`,
+  correctDisabled: '이 저장소는 라벨 수정(`/correct`)이 활성화되어 있지 않습니다.',
+  correctLabelsRequired: '올바른 라벨을 하나 이상 지정해주세요. 예: `/correct bug high-priority`',
+  writePermissionRequired: (username: string, command: string) =>
+    `@${username} \`/${command}\`은(는) 저장소 쓰기 권한이 있는 메인테이너만 사용할 수 있습니다.`,
+  unknownLabels: (labels: string) => `저장소에 없는 라벨입니다: ${labels}`,
+  labelsCorrected: (labels: string, removed: string | null) =>
+    `라벨을 ${labels}(으)로 바로잡았습니다${removed ? ` (제거: ${removed})` : ''}. 이후 이슈 분류에 예시로 반영됩니다.`,
+};
+
+export type ResponseText = typeof ko;
+
+const en: ResponseText = {
+  disclaimer: 'This response was generated automatically by AI and may be inaccurate. Please use it as a reference.',
+  related: 'Related issues / PRs',
+  relatedIssues: 'Related issues',
+  recentPRs: 'Recent PRs',
+  open: 'open',
+  closed: 'closed',
+  similarity: 'similarity',
+  otherComments: 'Other comments',
+  suggestedChanges: 'Suggested changes',
+  diffOmitted: 'diff omitted: it did not apply to the repository',
+  blocked: 'The generated response appeared to contain sensitive information such as secret keys, so it was not posted. Please contact a maintainer.',
+  suggestedLabels: (labels, confidence) =>
+    `> 💡 **Suggested labels** (confidence ${confidence}%): ${labels}\n>\n> _Confidence is below the auto-apply threshold, so the labels were not added. A maintainer can review and apply them._`,
+  stickyHistory: (count) => `📝 Previous responses (${count})`,
+  answerCandidate: (author, url) =>
+    `💡 **Possible answer**: [@${author}'s comment](${url}) looks like it answers the question. If it solved your problem, please mark it as the answer.`,
+
+  duplicate: (number, title, similarity) =>
+    `> 🔁 **Possible duplicate**\n>\n> This issue may be a duplicate of #${number} (${title}) (similarity ${similarity}%).\n\nPlease check the existing issue, and let us know how this one differs if it is a different problem.`,
+  configError: (path, sha, error) =>
+    `> ⚠️ **Invalid \`${path}\`**\n>\n> The config file on the default branch (\`${sha}\`) is invalid, so the server defaults are used.\n\n\`\`\`\n${error}\n\`\`\`\n\nFixes to the file take effect from the next event.`,
+  denied: (username, who) =>
+    `@${username} Sorry, only ${who} can call the bot in this repository. Please ask a maintainer if you need help.`,
+  deniedOrgMembers: 'organization members',
+  deniedCollaborators: (permission) => `collaborators with \`${permission}\` permission or higher`,
+  deniedAllowList: 'allowed users',
+  deniedUser: (username) =>
+    `@${username} Sorry, you can't call the bot in this repository. Please ask a maintainer if you need help.`,
+
+  placeholder: '⏳ Got it. Analyzing, please wait a moment...',
+  retrying: '⏳ A temporary error occurred and the request is being retried. Please wait a moment...',
+  failed: '⚠️ An error occurred while handling the request, so no response could be posted. Please mention the bot again later or contact a maintainer.',
+
+  unknownCommand: (name) => `\`/${name}\` is not a known command.`,
+  usage: 'Usage',
+  helpTitle: 'Available commands',
+  helpColumns: '| Command | Description |',
+  helpFreeForm: (botUsername) =>
+    `Write a question after \`@${botUsername}\` without a command for a free-form answer.`,
+  commands: {
+    triage: 'Classify the issue and post an analysis with labels',
+    label: 'Classify the issue and only add labels',
+    summarize: 'Summarize the issue and its discussion',
+    duplicates: 'Search for similar or duplicate issues',
+    explain: 'Explain a file or directory of the repository (repos with codebase analysis only)',
+    fix: 'Open a draft PR that fixes the issue (repos with auto fix enabled, write permission required)',
+    correct: "Correct the bot's labels (write permission, repos with label corrections enabled only)",
+    help: 'List available commands',
+  },
+  lowConfidence: (confidence) =>
+    `Analysis confidence is low (${confidence}%), so the classification was not posted. A maintainer needs to review this issue.`,
+  classificationFailed: 'The issue classification could not be validated, so no labels were added.',
+  classificationSummary: (type, priority) => `**Type:** ${type} / **Priority:** ${priority}`,
+  noLabelsToAdd: 'No matching labels were found in the repository.',
+  labelsAdded: (labels) => `Added labels: ${labels}`,
+  noSimilarIssues: 'No similar issues were found.',
+  similarIssues: 'Similar issues',
+  explainUnavailable: 'Codebase analysis is not set up for this repository.',
+  explainPathRequired: 'Please specify one path to explain.',
+  explainRelativePath: 'Only relative paths inside the repository are allowed.',
+  explainCheckoutFailed: 'The repository could not be fetched, so it cannot be explained right now. Please try again later.',
+  fixDisabled: 'Auto fix (`/fix`) is not enabled for this repository.',
+  fixOpened: (number, url) => `Opened the fix as draft PR #${number}. Please review it before merging.\n\n${url}`,
+  fixNoChanges: 'No change that could be made automatically was found.',
+  fixVerificationFailed: (command) =>
+    `A fix was attempted, but verification (\`${command}\`) failed, so no PR was opened.`,
+  fixVerificationOutput: 'Verification output',
+  fixPullRequestNotice: '> 🤖 This draft PR was generated automatically by a `/fix` request. A human must review it before merging.',
+  fixChanges: 'Changes',
+  fixVerification: 'Verification',
+  fixVerificationPassed: (command) => `\`${command}\` passed`,
+  fixNoVerification: 'No verification command is configured.',
+  fixBlocked: (rules) =>
+    `The fix contains what looks like secrets, server paths or git metadata changes (${rules}), so no branch was pushed.`,
+  correctDisabled: 'Label corrections (`/correct`) are not enabled for this repository.',
+  correctLabelsRequired: 'Please specify at least one correct label, e.g. `/correct bug high-priority`',
+  writePermissionRequired: (username, command) =>
+    `@${username} \`/${command}\` can only be used by maintainers with write access to the repository.`,
+  unknownLabels: (labels) => `These labels do not exist in the repository: ${labels}`,
+  labelsCorrected: (labels, removed) =>
+    `Corrected the labels to ${labels}${removed ? ` (removed: ${removed})` : ''}. This correction will be used as an example for future classifications.`,
+};
+
+export const RESPONSE_TEXT = { ko, en };
+
+export function responseText(language: string): ResponseText {
+  return language === 'ko' ? RESPONSE_TEXT.ko : RESPONSE_TEXT.en;
+}
+
+/**
+ * Text in the response language for an issue (repo setting, or the author's language for 'auto')
+ */
+export function responseTextFor(prompt: PromptConfig | undefined, context: IssueContext): ResponseText {
+  return responseText(resolveLanguage(prompt, context));
+}
@@ -0,0 +1,87 @@
+/**
+ * Claude Output Schemas
+ * zod schemas for structured responses requested from Claude
+ */
+
+import { z } from 'zod';
+
+export const classificationTypeSchema = z.enum([
+  'bug',
+  'feature',
+  'question',
+  'documentation',
+  'enhancement',
+  'other',
+]);
+
+export const classificationPrioritySchema = z.enum(['critical', 'high', 'medium', 'low']);
+
+/**
+ * Classification step response (mirrors IssueClassification + suggested labels)
+ */
+export const classificationResponseSchema = z.object({
+  type: classificationTypeSchema,
+  priority: classificationPrioritySchema,
+  area: z
+    .string()
+    .nullish()
+    .transform((area) => area || undefined),
+  suggestedLabels: z.array(z.string().min(1)).default([]),
+  // Model self-assessment of the classification (0-1)
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+export type ClassificationResponse = z.infer<typeof classificationResponseSchema>;
+
+/**
+ * Pull request review response; line numbers refer to the new version of each file
+ */
+export const pullRequestReviewSchema = z.object({
+  summary: z.string().min(1),
+  comments: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        line: z.number().int().positive(),
+        // First line of a multi-line comment
+        startLine: z.number().int().positive().optional(),
+        body: z.string().min(1),
+        // Replacement for lines startLine..line, posted as a GitHub suggestion block
+        suggestion: z.string().optional(),
+      })
+    )
+    .default([]),
+});
+
+export type PullRequestReviewResponse = z.infer<typeof pullRequestReviewSchema>;
+
+/**
+ * Discussion answer suggestion: which existing comment (if any) answers the question
+ */
+export const answerSuggestionSchema = z.object({
+  commentId: z.number().int().nullable(),
+  reason: z.string().optional(),
+});
+
+export type AnswerSuggestion = z.infer<typeof answerSuggestionSchema>;
+
+/**
+ * Code change suggestions; each diff is a unified diff for a single file
+ */
+export const codeSuggestionSchema = z.object({
+  explanation: z.string().default(''),
+  files: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        suggestion: z.string().min(1),
+        diff: z
+          .string()
+          .nullish()
+          .transform((diff) => diff || undefined),
+      })
+    )
+    .default([]),
+});
+
+export type CodeSuggestionResponse = z.infer<typeof codeSuggestionSchema>;
@@ -0,0 +1,60 @@
+import { describe, expect, test } from 'bun:test';
+import { z } from 'zod';
+import { extractJsonObject, parseStructured } from './structured-output';
+
+describe('extractJsonObject', () => {
+  test('prefers a fenced json block', () => {
+    const text = 'Example: {"type": "question"}\n\n```json\n{"type": "bug"}\n```';
+
+    expect(extractJsonObject(text)).toEqual({ type: 'bug' });
+  });
+
+  test('finds an object in surrounding prose', () => {
+    const text = 'Here is the result: {"type": "bug", "labels": ["a", "b"]} — hope this helps';
+
+    expect(extractJsonObject(text)).toEqual({ type: 'bug', labels: ['a', 'b'] });
+  });
+
+  test('ignores braces and escaped quotes inside strings', () => {
+    const text = 'Result {"body": "use {x} and \\"}\\" here", "n": {"m": 1}} done';
+
+    expect(extractJsonObject(text)).toEqual({ body: 'use {x} and "}" here', n: { m: 1 } });
+  });
+
+  test('skips unparseable candidates', () => {
+    expect(extractJsonObject('{not json} then {"ok": true}')).toEqual({ ok: true });
+    expect(extractJsonObject('no json here')).toBeUndefined();
+    expect(extractJsonObject('{"unterminated": ')).toBeUndefined();
+  });
+});
+
+describe('parseStructured', () => {
+  const schema = z.object({
+    type: z.enum(['bug', 'feature']),
+    labels: z.array(z.string()).default([]),
+  });
+
+  test('returns validated data with defaults applied', () => {
+    expect(parseStructured(schema, '{"type": "feature"}')).toEqual({
+      success: true,
+      data: { type: 'feature', labels: [] },
+    });
+  });
+
+  test('reports schema errors by path for the repair prompt', () => {
+    const result = parseStructured(schema, '{"type": "chore", "labels": [1]}');
+
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toStartWith('type: ');
+    expect(result.errors[1]).toStartWith('labels.0: ');
+  });
+
+  test('reports a missing object at the root', () => {
+    expect(parseStructured(schema, 'I could not classify this issue.')).toEqual({
+      success: false,
+      errors: ['(root): no JSON object found in response'],
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Structured Output
+ * Extracts JSON from model responses and validates it against zod schemas
+ */
+
+import type { z } from 'zod';
+
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Extract the first complete JSON object from free-form text
+ * Prefers ```json fenced blocks, then scans for balanced braces (string-aware)
+ */
+export function extractJsonObject(text: string): unknown | undefined {
+  const fenced = /```(?:json)?\s*\n([\s\S]*?)\n?```/i.exec(text);
+  if (fenced?.[1]) {
+    const parsed = tryParse(fenced[1].trim());
+    if (parsed !== undefined) return parsed;
+  }
+
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    const end = findMatchingBrace(text, start);
+    if (end === -1) continue;
+
+    const parsed = tryParse(text.slice(start, end + 1));
+    if (parsed !== undefined) return parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract JSON from text and validate it against a schema
+ */
+export function parseStructured<S extends z.ZodType>(
+  schema: S,
+  text: string
+): StructuredParseResult<z.infer<S>> {
+  const json = extractJsonObject(text);
+  if (json === undefined) {
+    return { success: false, errors: ['(root): no JSON object found in response'] };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(
+        (issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`
+      ),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
+function findMatchingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') depth++;
+    else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+function tryParse(candidate: string): unknown | undefined {
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Command Dispatcher
+ * Routes parsed slash commands to their handlers
+ */
+
+import type { ClaudeAgent } from '../claude/agent';
+import type { IssueIndex } from '../analyzer/issue-index';
+import type { LabelManager } from '../analyzer/label-taxonomy';
+import type { AutoFixRunner } from '../fix/auto-fix';
+import type { WorkspaceManager } from '../workspace/workspace-manager';
+import type { OctokitClient } from '../github/client';
+import type { FeedbackStore } from '../feedback/feedback-store';
+import type { LoopPrevention } from '../webhook/loop-prevention';
+import type { AnalysisResult, ConversationContext, IssueContext, RepoConfig } from '../types';
+import type { ParsedCommand } from './parser';
+import { responseTextFor, type ResponseText } from '../claude/response-text';
+
+export interface CommandContext {
+  issue: IssueContext;
+  conversation: ConversationContext;
+  sender: string; // user who ran the command
+  eventId: string; // delivery ID; retries of the same delivery share it
+  config: RepoConfig;
+  client: OctokitClient;
+  agent: ClaudeAgent;
+  labelManager: LabelManager;
+  autoFix: AutoFixRunner;
+  workspaces: WorkspaceManager;
+  loopPrevention: LoopPrevention;
+  issueIndex?: IssueIndex;
+  feedback?: FeedbackStore;
+}
+
+export interface CommandResult {
+  response: string; // comment body to post
+  labels?: string[]; // labels to add to the issue
+  triage?: TriageResult; // set for triage results: posted as the sticky comment when enabled, tracked for feedback
+}
+
+export interface TriageResult {
+  analysis: AnalysisResult;
+  labels: string[]; // labels after taxonomy mapping (applied or suggested)
+}
+
+export interface CommandDefinition {
+  name: string;
+  usage: string; // e.g. "/explain <path>"
+  description?: string; // help text for commands without an entry in RESPONSE_TEXT.commands
+  /**
+   * Validate arguments, returning an error message (in the response language) if invalid
+   */
+  validate?(args: string[], context: CommandContext): string | null;
+  execute(args: string[], context: CommandContext, command: ParsedCommand): Promise<CommandResult>;
+}
+
+export class CommandDispatcher {
+  private commands: Map<string, CommandDefinition> = new Map();
+  private botUsername: string;
+
+  constructor(botUsername: string, commands: CommandDefinition[] = []) {
+    this.botUsername = botUsername;
+    commands.forEach((c) => this.register(c));
+  }
+
+  /**
+   * Register a command handler
+   */
+  register(command: CommandDefinition): void {
+    this.commands.set(command.name, command);
+  }
+
+  has(name: string): boolean {
+    return this.commands.has(name);
+  }
+
+  /**
+   * Run a parsed command
+   * Unknown commands and invalid arguments produce a usage message instead of throwing
+   */
+  async dispatch(command: ParsedCommand, context: CommandContext): Promise<CommandResult> {
+    const text = responseTextFor(context.config.prompt, context.issue);
+
+    if (command.name === 'help') {
+      return { response: this.helpMessage(text) };
+    }
+
+    const definition = this.commands.get(command.name);
+    if (!definition) {
+      return {
+        response: `${text.unknownCommand(command.name)}\n\n${this.helpMessage(text)}`,
+      };
+    }
+
+    const error = definition.validate?.(command.args, context);
+    if (error) {
+      return {
+        response: `${error}\n\n${text.usage}: \`@${this.botUsername} ${definition.usage}\``,
+      };
+    }
+
+    return definition.execute(command.args, context, command);
+  }
+
+  /**
+   * Build the usage message listing all commands
+   */
+  helpMessage(text: ResponseText): string {
+    const rows = [
+      ...Array.from(this.commands.values()).map(
+        (c) => `| \`${c.usage}\` | ${text.commands[c.name] ?? c.description ?? ''} |`
+      ),
+      `| \`/help\` | ${text.commands.help} |`,
+    ];
+
+    return [
+      `### ${text.helpTitle}`,
+      '',
+      text.helpColumns,
+      '|--------|------|',
+      ...rows,
+      '',
+      text.helpFreeForm(this.botUsername),
+    ].join('\n');
+  }
+}
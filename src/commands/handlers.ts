@@ -0,0 +1,258 @@
+/**
+ * Built-in Commands
+ * Handlers for /triage, /label, /summarize, /duplicates, /explain, /fix, /correct
+ */
+
+import { isAbsolute, normalize } from 'path';
+import { ContextCollector } from '../analyzer/context-collector';
+import { applyConfidencePolicy, DEFAULT_CONFIDENCE_POLICY } from '../analyzer/confidence';
+import { labelExamples } from '../feedback/feedback-store';
+import { currentRun } from '../history/analysis-history';
+import { meetsPermission } from '../webhook/trigger-policy';
+import { codeBlock } from '../github/markdown';
+import { responseTextFor } from '../claude/response-text';
+import type { CommandDefinition } from './dispatcher';
+
+const triage: CommandDefinition = {
+  name: 'triage',
+  usage: '/triage',
+  async execute(_args, { issue, config, client, agent, labelManager, workspaces, issueIndex, feedback }) {
+    const policy = config.confidencePolicy ?? DEFAULT_CONFIDENCE_POLICY;
+    const collectedContext = await new ContextCollector(client, issueIndex).collect(issue);
+    const repoLabels = await labelManager.repoLabels(config, client);
+    const analysis = await workspaces.withCheckout(config, issue.repository, client, (repoPath) =>
+      agent.analyzeIssue(issue, repoPath, {
+        samples: policy.samples,
+        collectedContext,
+        prompt: config.prompt,
+        allowedLabels: repoLabels.allowed,
+        examples: labelExamples(feedback, config),
+      })
+    );
+    const { labels } = labelManager.resolve(
+      config,
+      repoLabels,
+      analysis.classification,
+      analysis.labels
+    );
+    const text = responseTextFor(config.prompt, issue);
+    const decision = applyConfidencePolicy({ ...analysis, labels }, policy, text);
+
+    // Explicitly requested, so explain instead of staying silent
+    if (!decision.response) {
+      return { response: text.lowConfidence(Math.round(analysis.confidence * 100)) };
+    }
+
+    return {
+      response: decision.response,
+      labels: config.autoLabel ? decision.labels : undefined,
+      triage: { analysis, labels: decision.labels },
+    };
+  },
+};
+
+const label: CommandDefinition = {
+  name: 'label',
+  usage: '/label',
+  async execute(_args, { issue, config, client, agent, labelManager, workspaces, feedback }) {
+    const repoLabels = await labelManager.repoLabels(config, client);
+    const { classification, suggestedLabels, validation } = await workspaces.withCheckout(
+      config,
+      issue.repository,
+      client,
+      (repoPath) =>
+        agent.classifyIssue(issue, repoPath, {
+          prompt: config.prompt,
+          allowedLabels: repoLabels.allowed,
+          examples: labelExamples(feedback, config),
+        })
+    );
+
+    const text = responseTextFor(config.prompt, issue);
+    if (validation.status === 'failed') {
+      return {
+        response: `${text.classificationFailed}\n\n${(validation.errors || []).map((e) => `- ${e}`).join('\n')}`,
+      };
+    }
+
+    const { labels } = labelManager.resolve(config, repoLabels, classification, suggestedLabels);
+
+    const summary = text.classificationSummary(classification.type, classification.priority);
+    if (labels.length === 0) {
+      return { response: `${summary}\n\n${text.noLabelsToAdd}` };
+    }
+
+    return {
+      response: `${summary}\n\n${text.labelsAdded(labels.map((l) => `\`${l}\``).join(', '))}`,
+      labels,
+    };
+  },
+};
+
+const summarize: CommandDefinition = {
+  name: 'summarize',
+  usage: '/summarize',
+  async execute(_args, { issue, conversation, config, agent }) {
+    return {
+      response: await agent.summarizeThread(issue, conversation.comments, config.prompt),
+    };
+  },
+};
+
+const duplicates: CommandDefinition = {
+  name: 'duplicates',
+  usage: '/duplicates',
+  async execute(_args, { issue, config, client, issueIndex }) {
+    const text = responseTextFor(config.prompt, issue);
+    const collector = new ContextCollector(client, issueIndex);
+    const { relatedIssues: related } = await collector.collect(issue);
+
+    if (related.length === 0) {
+      return { response: text.noSimilarIssues };
+    }
+
+    const lines = related.map(
+      (r) =>
+        `- #${r.number} ${r.title} (${r.status === 'open' ? text.open : text.closed}${r.similarity > 0 ? `, ${text.similarity} ${Math.round(r.similarity * 100)}%` : ''})`
+    );
+    return { response: `### ${text.similarIssues}\n\n${lines.join('\n')}` };
+  },
+};
+
+const explain: CommandDefinition = {
+  name: 'explain',
+  usage: '/explain <path>',
+  validate(args, { issue, config, workspaces }) {
+    const text = responseTextFor(config.prompt, issue);
+    if (!config.localPath && !workspaces.enabled) {
+      return text.explainUnavailable;
+    }
+    const [path] = args;
+    if (!path || args.length > 1) {
+      return text.explainPathRequired;
+    }
+    if (isAbsolute(path) || normalize(path).startsWith('..')) {
+      return text.explainRelativePath;
+    }
+    return null;
+  },
+  async execute([path], { issue, config, client, agent, workspaces }) {
+    const response = await workspaces.withCheckout(config, issue.repository, client, async (repoPath) =>
+      repoPath
+        ? agent.explainPath(issue, path!, repoPath, config.prompt)
+        : responseTextFor(config.prompt, issue).explainCheckoutFailed
+    );
+    return { response };
+  },
+};
+
+const fix: CommandDefinition = {
+  name: 'fix',
+  usage: '/fix',
+  validate(_args, { issue, config }) {
+    if (!config.autoFix?.enabled) {
+      return responseTextFor(config.prompt, issue).fixDisabled;
+    }
+    return null;
+  },
+  async execute(_args, { issue, sender, eventId, config, client, autoFix, loopPrevention }) {
+    const { owner, name } = issue.repository;
+    const text = responseTextFor(config.prompt, issue);
+
+    // Runs code and pushes a branch, so the trigger policy alone isn't enough
+    const permission = await client.getCollaboratorPermission(owner, name, sender);
+    if (!meetsPermission(permission, 'write')) {
+      return { response: text.writePermissionRequired(sender, 'fix') };
+    }
+
+    // A retry after the PR was opened only answers again
+    const opened = await loopPrevention.fixPullRequest(eventId);
+    if (opened) {
+      return { response: text.fixOpened(opened.number, opened.url) };
+    }
+
+    const result = await autoFix.run(issue, config, client);
+
+    switch (result.status) {
+      case 'opened':
+        await loopPrevention.recordFixPullRequest(eventId, result.pullRequest);
+        return { response: text.fixOpened(result.pullRequest.number, result.pullRequest.url) };
+      case 'no_changes':
+        return { response: `${text.fixNoChanges}\n\n${result.explanation}` };
+      case 'verification_failed':
+        return {
+          response: `${text.fixVerificationFailed(result.verification.command)}\n\n<details><summary>${text.fixVerificationOutput}</summary>\n\n${codeBlock(result.verification.output)}\n\n</details>`,
+        };
+      case 'blocked':
+        return { response: text.fixBlocked(result.rules.map((r) => `\`${r}\``).join(', ')) };
+    }
+  },
+};
+
+const correct: CommandDefinition = {
+  name: 'correct',
+  usage: '/correct <label> [label...]',
+  validate(args, { issue, config, feedback }) {
+    const text = responseTextFor(config.prompt, issue);
+    if (!config.feedback?.corrections || !feedback) {
+      return text.correctDisabled;
+    }
+    if (args.length === 0) {
+      return text.correctLabelsRequired;
+    }
+    return null;
+  },
+  async execute(args, { issue, sender, config, client, labelManager, feedback }) {
+    const { owner, name, full_name } = issue.repository;
+    const text = responseTextFor(config.prompt, issue);
+
+    const permission = await client.getCollaboratorPermission(owner, name, sender);
+    if (!meetsPermission(permission, 'write')) {
+      return { response: text.writePermissionRequired(sender, 'correct') };
+    }
+
+    // Match repo labels case-insensitively, keeping the repo's spelling
+    const { existing } = await labelManager.repoLabels(config, client);
+    const byName = new Map(existing.map((l) => [l.toLowerCase(), l]));
+    const requested = args.flatMap((a) => a.split(',')).map((a) => a.trim()).filter(Boolean);
+    const unknown = requested.filter((l) => !byName.has(l.toLowerCase()));
+    if (unknown.length > 0) {
+      return { response: text.unknownLabels(unknown.map((l) => `\`${l}\``).join(', ')) };
+    }
+    const corrected = [...new Set(requested.map((l) => byName.get(l.toLowerCase())!))];
+
+    // Only labels the bot chose are removed; ones maintainers added by hand stay
+    const predicted = feedback!.latestComment(full_name, issue.issue.number)?.labels ?? [];
+    const removed = predicted.filter((l) => !corrected.includes(l) && issue.issue.labels.includes(l));
+    for (const label of removed) {
+      await client.removeLabel(owner, name, issue.issue.number, label);
+    }
+    if (removed.length > 0) currentRun()?.labelsRemoved(removed);
+
+    feedback!.recordCorrection({
+      repo: full_name,
+      issueNumber: issue.issue.number,
+      title: issue.issue.title,
+      body: issue.issue.body,
+      predicted,
+      corrected,
+      user: sender,
+    });
+
+    const format = (labels: string[]) => labels.map((l) => `\`${l}\``).join(', ');
+    return {
+      response: text.labelsCorrected(format(corrected), removed.length > 0 ? format(removed) : null),
+      labels: corrected.filter((l) => !issue.issue.labels.includes(l)),
+    };
+  },
+};
+
+export const builtinCommands: CommandDefinition[] = [
+  triage,
+  label,
+  summarize,
+  duplicates,
+  explain,
+  fix,
+  correct,
+];
@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test';
+import { parseCommand } from './parser';
+
+describe('parseCommand', () => {
+  test('parses a command with arguments', () => {
+    expect(parseCommand('/explain src/index.ts')).toEqual({
+      name: 'explain',
+      args: ['src/index.ts'],
+      rawArgs: 'src/index.ts',
+      body: '',
+    });
+  });
+
+  test('lowercases the name and keeps quoted arguments together', () => {
+    const command = parseCommand(`/Label "good first issue" 'needs info' bug`);
+
+    expect(command?.name).toBe('label');
+    expect(command?.args).toEqual(['good first issue', 'needs info', 'bug']);
+  });
+
+  test('keeps following lines as the body', () => {
+    const command = parseCommand('  /fix\nThe parser drops the last line.\n\nPlease check.  ');
+
+    expect(command).toMatchObject({ name: 'fix', args: [], rawArgs: '' });
+    expect(command?.body).toBe('The parser drops the last line.\n\nPlease check.');
+  });
+
+  test('returns null without a leading slash command', () => {
+    expect(parseCommand(null)).toBeNull();
+    expect(parseCommand('')).toBeNull();
+    expect(parseCommand('can you /explain this?')).toBeNull();
+    expect(parseCommand('/ explain')).toBeNull();
+    expect(parseCommand('/123')).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Command Parser
+ * Parses slash commands from the text after a bot mention
+ * e.g. "@frentis-agent /explain src/index.ts" -> { name: 'explain', args: ['src/index.ts'] }
+ */
+
+export interface ParsedCommand {
+  name: string; // lowercased, without the leading slash
+  args: string[]; // whitespace-separated args on the command line ("quoted args" kept together)
+  rawArgs: string; // everything after the command name on the first line
+  body: string; // any following lines (free-form text)
+}
+
+const COMMAND_PATTERN = /^\/([a-zA-Z][\w-]*)(?:[ \t]+(.*))?$/;
+
+/**
+ * Parse a command from the message following a mention
+ * Returns null when the message doesn't start with a slash command
+ */
+export function parseCommand(message: string | null): ParsedCommand | null {
+  if (!message) return null;
+
+  const [firstLine = '', ...rest] = message.trim().split('\n');
+  const match = COMMAND_PATTERN.exec(firstLine.trim());
+  if (!match?.[1]) return null;
+
+  const rawArgs = (match[2] || '').trim();
+
+  return {
+    name: match[1].toLowerCase(),
+    args: splitArgs(rawArgs),
+    rawArgs,
+    body: rest.join('\n').trim(),
+  };
+}
+
+function splitArgs(rawArgs: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(rawArgs)) !== null) {
+    args.push(match[1] ?? match[2] ?? match[3] ?? '');
+  }
+  return args;
+}
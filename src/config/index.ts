@@ -2,8 +2,11 @@
  * Configuration loader
  */
 
+import { resolve } from 'path';
 import { z } from 'zod';
-import type { AgentConfig } from '../types';
+import type { AgentConfig, RepoConfig, RepoProfile } from '../types';
+import { mergeRepoConfig, repoFileSchema } from './repo-file';
+import { DEFAULT_API_KEYS_PATH } from '../api/auth';
 
 const envSchema = z.object({
   // GitHub App configuration
@@ -19,6 +22,51 @@ const envSchema = z.object({
   // Server configuration
   PORT: z.string().default('3000'),
   HOST: z.string().default('0.0.0.0'),
+
+  // Job queue configuration
+  QUEUE_DB_PATH: z.string().default('./data/queue.sqlite'),
+  QUEUE_CONCURRENCY: z.string().default('2'),
+  QUEUE_MAX_ATTEMPTS: z.string().default('5'),
+  QUEUE_BACKOFF_MS: z.string().default('5000'),
+
+  // Loop prevention state configuration
+  LOOP_STORE: z.enum(['memory', 'sqlite', 'redis']).default('sqlite'),
+  LOOP_STORE_PATH: z.string().default('./data/loop-state.sqlite'),
+  LOOP_EVENT_TTL_MS: z.string().default(String(3 * 24 * 60 * 60 * 1000)),
+  REDIS_URL: z.string().min(1).optional(),
+
+  // Duplicate detection index
+  ISSUE_INDEX_PATH: z.string().default('./data/issue-index.sqlite'),
+
+  // Repo registry
+  REPOS_PATH: z.string().default(resolve(import.meta.dir, '../../repos.json')),
+
+  // Repo registration from installation events
+  AUTO_REGISTER_REPOS: z.enum(['true', 'false']).default('false'),
+  DEFAULT_REPO_PROFILE: z.string().optional(), // JSON, same fields as .github/frentis.yml
+
+  // Automated fix PRs
+  FIX_WORK_DIR: z.string().default('./data/fix-workspaces'),
+
+  // Managed checkouts for codebase analysis (repos without localPath)
+  WORKSPACES_ENABLED: z.enum(['true', 'false']).default('false'),
+  WORKSPACE_DIR: z.string().default('./data/workspaces'),
+  WORKSPACE_MAX_MB: z.string().default('5120'),
+
+  // Admin API
+  API_KEYS_PATH: z.string().default(DEFAULT_API_KEYS_PATH),
+  CORS_ORIGINS: z.string().default(''), // comma-separated, empty = no cross-origin access
+
+  // Feedback on analysis comments (reactions, replies, label corrections)
+  FEEDBACK_DB_PATH: z.string().default('./data/feedback.sqlite'),
+  FEEDBACK_POLL_INTERVAL_MS: z.string().default(String(15 * 60 * 1000)),
+  FEEDBACK_WINDOW_DAYS: z.string().default('14'),
+
+  // Analysis audit log
+  ANALYSIS_HISTORY_PATH: z.string().default('./data/analyses.sqlite'),
+}).refine((env) => env.LOOP_STORE !== 'redis' || env.REDIS_URL, {
+  message: 'REDIS_URL is required when LOOP_STORE=redis',
+  path: ['REDIS_URL'],
 });
 
 export function loadConfig(): AgentConfig {
@@ -41,18 +89,74 @@ export function loadConfig(): AgentConfig {
       port: parseInt(env.PORT, 10),
       host: env.HOST,
     },
-    repos: [], // Will be loaded from repos.json or added via API
+    queue: {
+      dbPath: env.QUEUE_DB_PATH,
+      concurrency: parseInt(env.QUEUE_CONCURRENCY, 10),
+      maxAttempts: parseInt(env.QUEUE_MAX_ATTEMPTS, 10),
+      backoffBaseMs: parseInt(env.QUEUE_BACKOFF_MS, 10),
+    },
+    loopStore: {
+      backend: env.LOOP_STORE,
+      sqlitePath: env.LOOP_STORE_PATH,
+      redisUrl: env.REDIS_URL,
+      eventTtlMs: parseInt(env.LOOP_EVENT_TTL_MS, 10),
+    },
+    issueIndex: {
+      dbPath: env.ISSUE_INDEX_PATH,
+    },
+    registration: {
+      autoRegister: env.AUTO_REGISTER_REPOS === 'true',
+      defaultProfile: parseRepoProfile(env.DEFAULT_REPO_PROFILE),
+    },
+    autoFix: {
+      workDir: env.FIX_WORK_DIR,
+    },
+    workspaces: {
+      enabled: env.WORKSPACES_ENABLED === 'true',
+      dir: env.WORKSPACE_DIR,
+      maxBytes: parseInt(env.WORKSPACE_MAX_MB, 10) * 1024 * 1024,
+    },
+    api: {
+      keysPath: env.API_KEYS_PATH,
+      corsOrigins: env.CORS_ORIGINS.split(',')
+        .map((o) => o.trim())
+        .filter(Boolean),
+    },
+    reposPath: env.REPOS_PATH,
+    feedback: {
+      dbPath: env.FEEDBACK_DB_PATH,
+      pollIntervalMs: parseInt(env.FEEDBACK_POLL_INTERVAL_MS, 10),
+      windowMs: parseInt(env.FEEDBACK_WINDOW_DAYS, 10) * 24 * 60 * 60 * 1000,
+    },
+    history: {
+      dbPath: env.ANALYSIS_HISTORY_PATH,
+    },
   };
 }
 
-export function loadReposConfig(configPath?: string): AgentConfig['repos'] {
-  const path = configPath || `${import.meta.dir}/../../repos.json`;
+/**
+ * Parse DEFAULT_REPO_PROFILE over the built-in defaults (enabled, labels and responses on)
+ */
+function parseRepoProfile(json?: string): RepoProfile {
+  const base = { owner: '', name: '', enabled: true, autoLabel: true, autoRespond: true };
+  if (!json) return stripIdentity(base);
+
+  let raw: unknown;
   try {
-    const content = require('fs').readFileSync(path, 'utf-8');
-    console.log('[CONFIG] Loaded repos:', content);
-    return JSON.parse(content);
-  } catch (e) {
-    console.log('[CONFIG] Failed to load repos.json:', e);
-    return [];
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid DEFAULT_REPO_PROFILE: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = repoFileSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid DEFAULT_REPO_PROFILE: ${result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`).join(', ')}`
+    );
   }
+  return stripIdentity(mergeRepoConfig(base, result.data));
+}
+
+function stripIdentity({ owner, name, ...profile }: RepoConfig): RepoProfile {
+  return profile;
 }
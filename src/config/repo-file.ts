@@ -0,0 +1,292 @@
+/**
+ * In-repo Configuration
+ * Loads .github/frentis.yml from the default branch and merges it over RepoConfig
+ */
+
+import { YAML } from 'bun';
+import { z } from 'zod';
+import type { OctokitClient } from '../github/client';
+import type { RepoConfig } from '../types';
+import { DEFAULT_CONFIDENCE_POLICY } from '../analyzer/confidence';
+import { classificationPrioritySchema, classificationTypeSchema } from '../claude/schemas';
+import { DEFAULT_TRIGGER_POLICY } from '../webhook/trigger-policy';
+import { DEFAULT_STICKY_COMMENT } from '../github/sticky-comment';
+import { DEFAULT_PROGRESS } from '../webhook/progress';
+import { DEFAULT_FEEDBACK } from '../feedback/feedback-store';
+
+export const REPO_CONFIG_FILE_PATH = '.github/frentis.yml';
+
+const DEFAULT_DUPLICATE_DETECTION = {
+  enabled: false,
+  threshold: 0.6,
+  label: 'duplicate',
+};
+
+const DEFAULT_PULL_REQUESTS = {
+  autoSummary: false,
+  autoReview: false,
+};
+
+/**
+ * Options repo owners may set in .github/frentis.yml
+ * Server-only settings (owner, name, localPath) can't be overridden
+ */
+export const repoFileSchema = z
+  .object({
+    enabled: z.boolean(),
+    autoLabel: z.boolean(),
+    autoRespond: z.boolean(),
+    confidencePolicy: z
+      .object({
+        autoApplyThreshold: z.number().min(0).max(1),
+        skipBelow: z.number().min(0).max(1),
+        samples: z.number().int().min(1).max(5),
+      })
+      .strict()
+      .partial()
+      // Unset bounds fall back to the defaults when merged, so compare against those
+      .refine(
+        (policy) =>
+          (policy.skipBelow ?? DEFAULT_CONFIDENCE_POLICY.skipBelow) <=
+          (policy.autoApplyThreshold ?? DEFAULT_CONFIDENCE_POLICY.autoApplyThreshold),
+        { message: 'skipBelow must not exceed autoApplyThreshold', path: ['skipBelow'] }
+      ),
+    duplicateDetection: z
+      .object({
+        enabled: z.boolean(),
+        threshold: z.number().min(0).max(1),
+        label: z.string().min(1),
+      })
+      .strict()
+      .partial(),
+    prompt: z
+      .object({
+        language: z.string().min(2),
+        tone: z.string().min(1),
+        systemPromptAppend: z.string(),
+        responseSections: z.array(z.string().min(1)).min(1),
+      })
+      .strict()
+      .partial(),
+    labels: z
+      .object({
+        type: z.partialRecord(classificationTypeSchema, z.string().min(1)),
+        priority: z.partialRecord(classificationPrioritySchema, z.string().min(1)),
+        area: z.record(z.string(), z.string().min(1)),
+        allowUnmapped: z.boolean(),
+        sync: z.boolean(),
+        definitions: z.array(
+          z
+            .object({
+              name: z.string().min(1),
+              color: z.string().regex(/^#?[0-9a-fA-F]{6}$/, 'expected a 6-digit hex color'),
+              description: z.string().max(100),
+            })
+            .strict()
+            .partial({ color: true, description: true })
+        ),
+      })
+      .strict()
+      .partial(),
+    pullRequests: z
+      .object({
+        autoSummary: z.boolean(),
+        autoReview: z.boolean(),
+      })
+      .strict()
+      .partial(),
+    discussions: z
+      .object({
+        suggestAnswer: z.boolean(),
+      })
+      .strict()
+      .partial(),
+    triggerPolicy: z
+      .object({
+        mode: z.enum(['anyone', 'org-members', 'collaborators', 'allowlist']),
+        minPermission: z.enum(['read', 'triage', 'write', 'maintain', 'admin']),
+        allow: z.array(z.string().min(1)),
+        deny: z.array(z.string().min(1)),
+        onDenied: z.enum(['reply', 'ignore']),
+      })
+      .strict()
+      .partial(),
+    stickyComment: z
+      .object({
+        enabled: z.boolean(),
+        historyLimit: z.number().int().min(0).max(50),
+      })
+      .strict()
+      .partial(),
+    progress: z
+      .object({
+        reactions: z.boolean(),
+        placeholder: z.boolean(),
+      })
+      .strict()
+      .partial(),
+    feedback: z
+      .object({
+        corrections: z.boolean(),
+        fewShotExamples: z.number().int().min(0).max(20),
+      })
+      .strict()
+      .partial(),
+  })
+  .strict()
+  .partial();
+
+export type RepoFileConfig = z.infer<typeof repoFileSchema>;
+
+export interface RepoFileResult {
+  config: RepoConfig; // effective config (base config if the file is missing/invalid)
+  sha: string | null; // default branch commit the file was read from
+  error?: string; // validation/parse error, if the file is invalid
+}
+
+interface CacheEntry {
+  sha: string;
+  file?: RepoFileConfig;
+  error?: string;
+  reported?: boolean; // the error was already reported on GitHub
+}
+
+/**
+ * Merge in-repo settings over the server's RepoConfig entry
+ */
+export function mergeRepoConfig(base: RepoConfig, file?: RepoFileConfig): RepoConfig {
+  if (!file) return base;
+
+  return {
+    ...base,
+    ...(file.enabled !== undefined && { enabled: file.enabled }),
+    ...(file.autoLabel !== undefined && { autoLabel: file.autoLabel }),
+    ...(file.autoRespond !== undefined && { autoRespond: file.autoRespond }),
+    ...(file.confidencePolicy && {
+      confidencePolicy: {
+        ...DEFAULT_CONFIDENCE_POLICY,
+        ...base.confidencePolicy,
+        ...file.confidencePolicy,
+      },
+    }),
+    ...(file.duplicateDetection && {
+      duplicateDetection: {
+        ...DEFAULT_DUPLICATE_DETECTION,
+        ...base.duplicateDetection,
+        ...file.duplicateDetection,
+      },
+    }),
+    ...(file.prompt && { prompt: { ...base.prompt, ...file.prompt } }),
+    ...(file.labels && { labels: { ...base.labels, ...file.labels } }),
+    ...(file.pullRequests && {
+      pullRequests: { ...DEFAULT_PULL_REQUESTS, ...base.pullRequests, ...file.pullRequests },
+    }),
+    ...(file.discussions && {
+      discussions: { suggestAnswer: false, ...base.discussions, ...file.discussions },
+    }),
+    ...(file.triggerPolicy && {
+      triggerPolicy: { ...DEFAULT_TRIGGER_POLICY, ...base.triggerPolicy, ...file.triggerPolicy },
+    }),
+    ...(file.stickyComment && {
+      stickyComment: { ...DEFAULT_STICKY_COMMENT, ...base.stickyComment, ...file.stickyComment },
+    }),
+    ...(file.progress && {
+      progress: { ...DEFAULT_PROGRESS, ...base.progress, ...file.progress },
+    }),
+    ...(file.feedback && {
+      feedback: { ...DEFAULT_FEEDBACK, ...base.feedback, ...file.feedback },
+    }),
+  };
+}
+
+/**
+ * Parse and validate the content of a frentis.yml file
+ */
+export function parseRepoFile(content: string): { file?: RepoFileConfig; error?: string } {
+  let raw: unknown;
+  try {
+    raw = YAML.parse(content);
+  } catch (error) {
+    return { error: `YAML parse error: ${error instanceof Error ? error.message : error}` };
+  }
+
+  // An empty file is valid and changes nothing
+  if (raw === null || raw === undefined) return { file: {} };
+
+  const result = repoFileSchema.safeParse(raw);
+  if (!result.success) {
+    return {
+      error: result.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('\n'),
+    };
+  }
+
+  return { file: result.data };
+}
+
+export class RepoFileConfigLoader {
+  // Parsed file per repo, keyed by the default branch commit it was read from
+  private cache: Map<string, CacheEntry> = new Map();
+
+  /**
+   * Resolve the effective config for a repo
+   * Falls back to the base config when the file is missing, invalid or unreadable
+   */
+  async resolve(
+    base: RepoConfig,
+    defaultBranch: string,
+    client: OctokitClient
+  ): Promise<RepoFileResult> {
+    const repoKey = `${base.owner}/${base.name}`;
+
+    let sha: string;
+    try {
+      sha = await client.getBranchSha(base.owner, base.name, defaultBranch);
+    } catch (error) {
+      console.warn(`[CONFIG] Could not resolve ${repoKey}@${defaultBranch}:`, error);
+      return { config: base, sha: null };
+    }
+
+    const cached = this.cache.get(repoKey);
+    if (cached?.sha === sha) {
+      return {
+        config: mergeRepoConfig(base, cached.file),
+        sha,
+        error: cached.error,
+      };
+    }
+
+    // Not cached on failure, so the next event reads the file again
+    let content: string | null;
+    try {
+      content = await client.getFileContent(base.owner, base.name, REPO_CONFIG_FILE_PATH, sha);
+    } catch (error) {
+      console.warn(`[CONFIG] Could not read ${REPO_CONFIG_FILE_PATH} from ${repoKey}@${sha}:`, error);
+      return { config: base, sha };
+    }
+    const { file, error } = content === null ? {} : parseRepoFile(content);
+
+    this.cache.set(repoKey, { sha, file, error });
+
+    if (error) {
+      console.warn(`[CONFIG] Invalid ${REPO_CONFIG_FILE_PATH} in ${repoKey}@${sha}:`, error);
+    } else if (file) {
+      console.log(`[CONFIG] Loaded ${REPO_CONFIG_FILE_PATH} from ${repoKey}@${sha.slice(0, 7)}`);
+    }
+
+    return { config: mergeRepoConfig(base, file), sha, error };
+  }
+
+  /**
+   * The current file error for a repo if it hasn't been reported yet; marks it reported
+   * Lets callers report only on events that trigger the bot, once per commit
+   */
+  claimErrorReport(repoKey: string): { sha: string; error: string } | null {
+    const cached = this.cache.get(repoKey);
+    if (!cached?.error || cached.reported) return null;
+
+    cached.reported = true;
+    return { sha: cached.sha, error: cached.error };
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Repo Registry
+ * Owns the registered repo list: validation, uniqueness, atomic persistence,
+ * hot reload on file changes, and change notifications
+ */
+
+import { watch, type FSWatcher } from 'fs';
+import { rename } from 'fs/promises';
+import { basename, dirname } from 'path';
+import { z } from 'zod';
+import type { RepoConfig } from '../types';
+import { mergeRepoConfig, repoFileSchema } from './repo-file';
+
+// GitHub owner / repo name characters
+const repoNameSchema = z.string().regex(/^[A-Za-z0-9_.-]+$/, 'invalid GitHub owner/repo name');
+
+const autoFixSchema = z
+  .object({
+    enabled: z.boolean(),
+    verifyCommand: z.string().min(1).optional(),
+    verifyTimeoutMs: z.number().int().positive().optional(),
+    branchPrefix: z.string().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * A registry entry: everything frentis.yml allows plus server-only settings
+ */
+export const repoEntrySchema = repoFileSchema
+  .extend({
+    owner: repoNameSchema,
+    name: repoNameSchema,
+    // Older repos.json files write null for "no checkout"
+    localPath: z
+      .string()
+      .min(1)
+      .nullish()
+      .transform((path) => path || undefined),
+    autoRegistered: z.boolean().optional(),
+    autoFix: autoFixSchema.optional(),
+  })
+  .strict();
+
+/**
+ * POST body: an entry without the settings that reach the host (a filesystem path,
+ * a shell command); those can only be set by editing the registry file
+ */
+export const repoCreateSchema = repoEntrySchema
+  .omit({ localPath: true })
+  .extend({ autoFix: autoFixSchema.omit({ verifyCommand: true }).optional() })
+  .strict();
+
+/**
+ * PATCH body: any POST field except the identity
+ */
+export const repoPatchSchema = repoCreateSchema.omit({ owner: true, name: true });
+
+export type RepoRegistryResult =
+  | { success: true; repo: RepoConfig }
+  | { success: false; reason: 'invalid' | 'conflict' | 'not_found'; error: string };
+
+type RepoListener = (repos: RepoConfig[]) => void;
+
+// Editors and atomic writes fire several events per change
+const WATCH_DEBOUNCE_MS = 100;
+
+export class RepoRegistry {
+  private path: string;
+  private repos: Map<string, RepoConfig> = new Map();
+  private listeners: Set<RepoListener> = new Set();
+  private watcher?: FSWatcher;
+  private reloadTimer?: ReturnType<typeof setTimeout>;
+  // Last content read or written, so our own writes don't trigger a reload
+  private lastContent = '';
+  // Writes are chained so concurrent changes don't race on the temp file
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /**
+   * Load the registry file; a missing file is an empty registry
+   * Throws if the file is invalid, so a broken registry is noticed at startup
+   */
+  async load(): Promise<void> {
+    const file = Bun.file(this.path);
+    if (!(await file.exists())) {
+      console.log(`[REPOS] No registry at ${this.path}, starting empty`);
+      return;
+    }
+
+    const content = await file.text();
+    const parsed = parseRegistry(content);
+    if (!parsed.success) {
+      throw new Error(`Invalid repo registry ${this.path}: ${parsed.error}`);
+    }
+
+    this.lastContent = content;
+    this.replace(parsed.repos);
+    console.log(`[REPOS] Loaded ${parsed.repos.length} repos from ${this.path}`);
+  }
+
+  list(): RepoConfig[] {
+    return Array.from(this.repos.values());
+  }
+
+  get(owner: string, name: string): RepoConfig | undefined {
+    return this.repos.get(repoKey(owner, name));
+  }
+
+  /**
+   * Notify on every change (API, installation events, file edits); returns unsubscribe
+   */
+  subscribe(listener: RepoListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Add a repo; owner/name must not be registered yet
+   */
+  async create(input: unknown): Promise<RepoRegistryResult> {
+    const result = repoCreateSchema.safeParse(input);
+    if (!result.success) {
+      return { success: false, reason: 'invalid', error: formatIssues(result.error) };
+    }
+
+    const repo = toRepoConfig(result.data);
+    const key = repoKey(repo.owner, repo.name);
+    if (this.repos.has(key)) {
+      return { success: false, reason: 'conflict', error: `${key} is already registered` };
+    }
+
+    this.repos.set(key, repo);
+    await this.commit();
+    return { success: true, repo };
+  }
+
+  /**
+   * Merge a partial update over a registered repo (nested settings are merged, not replaced)
+   */
+  async update(owner: string, name: string, patch: unknown): Promise<RepoRegistryResult> {
+    const key = repoKey(owner, name);
+    const current = this.repos.get(key);
+    if (!current) {
+      return { success: false, reason: 'not_found', error: `${key} is not registered` };
+    }
+
+    const result = repoPatchSchema.safeParse(patch);
+    if (!result.success) {
+      return { success: false, reason: 'invalid', error: formatIssues(result.error) };
+    }
+
+    const { autoRegistered, autoFix, ...settings } = result.data;
+    const repo: RepoConfig = {
+      ...mergeRepoConfig(current, settings),
+      localPath: current.localPath,
+      autoRegistered: autoRegistered ?? current.autoRegistered,
+      autoFix: autoFix ? { ...current.autoFix, ...autoFix } : current.autoFix,
+    };
+
+    this.repos.set(key, repo);
+    await this.commit();
+    return { success: true, repo };
+  }
+
+  async remove(owner: string, name: string): Promise<boolean> {
+    if (!this.repos.delete(repoKey(owner, name))) return false;
+
+    await this.commit();
+    return true;
+  }
+
+  /**
+   * Reload when the file is edited by hand; invalid edits are logged and ignored
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    // Watch the directory: atomic writes replace the file, which ends a file watch
+    const file = basename(this.path);
+    this.watcher = watch(dirname(this.path), (_event, changed) => {
+      if (changed !== file) return;
+
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.reload().catch((error) => console.error('[REPOS] Reload failed:', error));
+      }, WATCH_DEBOUNCE_MS);
+    });
+  }
+
+  close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = undefined;
+  }
+
+  private async reload(): Promise<void> {
+    const file = Bun.file(this.path);
+    if (!(await file.exists())) return;
+
+    const content = await file.text();
+    if (content === this.lastContent) return;
+
+    const parsed = parseRegistry(content);
+    if (!parsed.success) {
+      console.error(`[REPOS] Ignoring invalid edit to ${this.path}: ${parsed.error}`);
+      return;
+    }
+
+    this.lastContent = content;
+    this.replace(parsed.repos);
+    console.log(`[REPOS] Reloaded ${parsed.repos.length} repos from ${this.path}`);
+    this.notify();
+  }
+
+  private replace(repos: RepoConfig[]): void {
+    this.repos = new Map(repos.map((r) => [repoKey(r.owner, r.name), r]));
+  }
+
+  /**
+   * Persist via write-and-rename so readers never see a partial file, then notify
+   */
+  private async commit(): Promise<void> {
+    const content = `${JSON.stringify(this.list(), null, 2)}\n`;
+    const tmpPath = `${this.path}.${process.pid}.tmp`;
+
+    const write = this.writing.then(async () => {
+      await Bun.write(tmpPath, content);
+      await rename(tmpPath, this.path);
+      this.lastContent = content;
+    });
+    // A failed write shouldn't block later ones
+    this.writing = write.catch(() => {});
+
+    await write;
+    this.notify();
+  }
+
+  private notify(): void {
+    const repos = this.list();
+    for (const listener of this.listeners) {
+      try {
+        listener(repos);
+      } catch (error) {
+        console.error('[REPOS] Listener failed:', error);
+      }
+    }
+  }
+}
+
+function repoKey(owner: string, name: string): string {
+  return `${owner}/${name}`;
+}
+
+/**
+ * Fill defaults for an entry (enabled, labels and responses on unless set)
+ */
+function toRepoConfig(
+  entry: Omit<z.infer<typeof repoEntrySchema>, 'localPath'> & { localPath?: string }
+): RepoConfig {
+  const { owner, name, localPath, autoRegistered, autoFix, ...settings } = entry;
+  const base: RepoConfig = {
+    owner,
+    name,
+    localPath,
+    autoRegistered,
+    autoFix,
+    enabled: true,
+    autoLabel: true,
+    autoRespond: true,
+  };
+  return mergeRepoConfig(base, settings);
+}
+
+function parseRegistry(
+  content: string
+): { success: true; repos: RepoConfig[] } | { success: false; error: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return { success: false, error: `JSON parse error: ${error instanceof Error ? error.message : error}` };
+  }
+
+  const result = z.array(repoEntrySchema).safeParse(raw);
+  if (!result.success) {
+    return { success: false, error: formatIssues(result.error) };
+  }
+
+  const repos = result.data.map(toRepoConfig);
+  const seen = new Set<string>();
+  for (const repo of repos) {
+    const key = repoKey(repo.owner, repo.name);
+    if (seen.has(key)) return { success: false, error: `${key} is listed more than once` };
+    seen.add(key);
+  }
+
+  return { success: true, repos };
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join(', ');
+}
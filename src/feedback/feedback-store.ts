@@ -0,0 +1,286 @@
+/**
+ * Feedback Store
+ * Tracks the bot's analysis comments with the AnalysisResult behind them, the 👍/👎 reactions
+ * and replies they get, and maintainers' label corrections, persisted in SQLite
+ */
+
+import type { Database } from 'bun:sqlite';
+import { openDatabase } from '../storage/database';
+import type { AnalysisResult, FeedbackConfig, LabelExample, RepoConfig } from '../types';
+
+export type FeedbackSignal = 'positive' | 'negative';
+export type FeedbackSource = 'reaction' | 'reply';
+
+export const DEFAULT_FEEDBACK: FeedbackConfig = {
+  corrections: false,
+  fewShotExamples: 3,
+};
+
+// Issue bodies are cut to this length in few-shot examples
+const EXAMPLE_BODY_CHARS = 500;
+
+export interface TrackedComment {
+  commentId: number;
+  repo: string; // owner/name
+  issueNumber: number;
+  installationId: number;
+  analysis: AnalysisResult;
+  labels: string[]; // labels the bot applied or suggested after taxonomy mapping
+  createdAt: number;
+}
+
+export interface FeedbackMetrics {
+  repo: string;
+  comments: number; // tracked analysis comments
+  commentsWithFeedback: number;
+  positive: number;
+  negative: number;
+  helpfulRate: number | null; // positive / (positive + negative), null without feedback
+  corrections: number;
+  byType: Record<string, { comments: number; positive: number; negative: number }>;
+}
+
+interface CommentRow {
+  comment_id: number;
+  repo: string;
+  issue_number: number;
+  installation_id: number;
+  analysis: string;
+  labels: string;
+  created_at: number;
+}
+
+export class FeedbackStore {
+  private db: Database;
+
+  constructor(dbPath: string) {
+    this.db = openDatabase(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS comments (
+        comment_id INTEGER PRIMARY KEY,
+        repo TEXT NOT NULL,
+        issue_number INTEGER NOT NULL,
+        installation_id INTEGER NOT NULL,
+        analysis TEXT NOT NULL,
+        labels TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_comments_issue ON comments (repo, issue_number);
+      CREATE TABLE IF NOT EXISTS feedback (
+        comment_id INTEGER NOT NULL,
+        source TEXT NOT NULL,
+        user TEXT NOT NULL,
+        ref TEXT NOT NULL,
+        signal TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (comment_id, source, user, ref)
+      );
+      CREATE TABLE IF NOT EXISTS corrections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        repo TEXT NOT NULL,
+        issue_number INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT,
+        predicted TEXT NOT NULL,
+        corrected TEXT NOT NULL,
+        user TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_corrections_repo ON corrections (repo, created_at);
+    `);
+  }
+
+  /**
+   * Remember an analysis comment; a sticky comment that was edited replaces its earlier analysis
+   */
+  trackComment(comment: Omit<TrackedComment, 'createdAt'>): void {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO comments
+         (comment_id, repo, issue_number, installation_id, analysis, labels, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        comment.commentId,
+        comment.repo,
+        comment.issueNumber,
+        comment.installationId,
+        JSON.stringify(comment.analysis),
+        JSON.stringify(comment.labels),
+        Date.now()
+      );
+  }
+
+  /**
+   * The most recent tracked comment on an issue
+   */
+  latestComment(repo: string, issueNumber: number): TrackedComment | null {
+    const row = this.db
+      .query<CommentRow, [string, number]>(
+        `SELECT * FROM comments WHERE repo = ? AND issue_number = ?
+         ORDER BY created_at DESC LIMIT 1`
+      )
+      .get(repo, issueNumber);
+    return row ? toTrackedComment(row) : null;
+  }
+
+  /**
+   * Comments still collecting reactions (posted within the window)
+   */
+  recentComments(since: number): TrackedComment[] {
+    return this.db
+      .query<CommentRow, [number]>('SELECT * FROM comments WHERE created_at >= ? ORDER BY created_at')
+      .all(since)
+      .map(toTrackedComment);
+  }
+
+  /**
+   * Record a reply judged as feedback; each user counts once per comment, with their latest reply
+   */
+  recordReply(commentId: number, user: string, signal: FeedbackSignal): void {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO feedback (comment_id, source, user, ref, signal, created_at)
+         VALUES (?, 'reply', ?, '', ?, ?)`
+      )
+      .run(commentId, user, signal, Date.now());
+  }
+
+  /**
+   * Replace a comment's reaction feedback with the current reactions, so removed ones drop out
+   */
+  replaceReactions(
+    commentId: number,
+    reactions: Array<{ user: string; content: string; signal: FeedbackSignal }>
+  ): void {
+    const replace = this.db.transaction(() => {
+      this.db.query(`DELETE FROM feedback WHERE comment_id = ? AND source = 'reaction'`).run(commentId);
+      const insert = this.db.query(
+        `INSERT OR IGNORE INTO feedback (comment_id, source, user, ref, signal, created_at)
+         VALUES (?, 'reaction', ?, ?, ?, ?)`
+      );
+      for (const r of reactions) {
+        insert.run(commentId, r.user, r.content, r.signal, Date.now());
+      }
+    });
+    replace();
+  }
+
+  recordCorrection(correction: {
+    repo: string;
+    issueNumber: number;
+    title: string;
+    body: string | null;
+    predicted: string[];
+    corrected: string[];
+    user: string;
+  }): void {
+    this.db
+      .query(
+        `INSERT INTO corrections
+         (repo, issue_number, title, body, predicted, corrected, user, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        correction.repo,
+        correction.issueNumber,
+        correction.title,
+        correction.body?.slice(0, EXAMPLE_BODY_CHARS) ?? null,
+        JSON.stringify(correction.predicted),
+        JSON.stringify(correction.corrected),
+        correction.user,
+        Date.now()
+      );
+  }
+
+  /**
+   * Latest corrections as few-shot examples, one per issue
+   */
+  examples(repo: string, limit: number): LabelExample[] {
+    if (limit <= 0) return [];
+
+    return this.db
+      .query<{ title: string; body: string | null; corrected: string }, [string, number]>(
+        `SELECT title, body, corrected FROM corrections c
+         WHERE repo = ?1 AND id = (
+           SELECT MAX(id) FROM corrections WHERE repo = c.repo AND issue_number = c.issue_number
+         )
+         ORDER BY created_at DESC LIMIT ?2`
+      )
+      .all(repo, limit)
+      .map((row) => ({ title: row.title, body: row.body, labels: JSON.parse(row.corrected) }));
+  }
+
+  metrics(repo: string): FeedbackMetrics {
+    const comments = this.db
+      .query<{ comment_id: number; analysis: string }, [string]>(
+        'SELECT comment_id, analysis FROM comments WHERE repo = ?'
+      )
+      .all(repo);
+    const feedback = this.db
+      .query<{ comment_id: number; signal: FeedbackSignal }, [string]>(
+        `SELECT f.comment_id, f.signal FROM feedback f
+         JOIN comments c ON c.comment_id = f.comment_id WHERE c.repo = ?`
+      )
+      .all(repo);
+    const { count: corrections } = this.db
+      .query<{ count: number }, [string]>('SELECT COUNT(*) AS count FROM corrections WHERE repo = ?')
+      .get(repo)!;
+
+    const signals = new Map<number, { positive: number; negative: number }>();
+    for (const f of feedback) {
+      const entry = signals.get(f.comment_id) ?? { positive: 0, negative: 0 };
+      entry[f.signal]++;
+      signals.set(f.comment_id, entry);
+    }
+
+    const byType: FeedbackMetrics['byType'] = {};
+    let positive = 0;
+    let negative = 0;
+    for (const comment of comments) {
+      const type = (JSON.parse(comment.analysis) as AnalysisResult).classification.type;
+      const counts = signals.get(comment.comment_id) ?? { positive: 0, negative: 0 };
+      const bucket = (byType[type] ??= { comments: 0, positive: 0, negative: 0 });
+      bucket.comments++;
+      bucket.positive += counts.positive;
+      bucket.negative += counts.negative;
+      positive += counts.positive;
+      negative += counts.negative;
+    }
+
+    return {
+      repo,
+      comments: comments.length,
+      commentsWithFeedback: signals.size,
+      positive,
+      negative,
+      helpfulRate: positive + negative > 0 ? positive / (positive + negative) : null,
+      corrections,
+      byType,
+    };
+  }
+}
+
+/**
+ * Few-shot examples for a repo's prompts, or undefined when there are none to use
+ */
+export function labelExamples(
+  store: FeedbackStore | undefined,
+  config: RepoConfig
+): LabelExample[] | undefined {
+  const limit = config.feedback?.fewShotExamples ?? DEFAULT_FEEDBACK.fewShotExamples;
+  const examples = store?.examples(`${config.owner}/${config.name}`, limit);
+  return examples && examples.length > 0 ? examples : undefined;
+}
+
+function toTrackedComment(row: CommentRow): TrackedComment {
+  return {
+    commentId: row.comment_id,
+    repo: row.repo,
+    issueNumber: row.issue_number,
+    installationId: row.installation_id,
+    analysis: JSON.parse(row.analysis),
+    labels: JSON.parse(row.labels),
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Reaction Poller
+ * GitHub sends no webhook for reactions, so reactions on recent analysis comments
+ * are fetched periodically and stored as feedback
+ */
+
+import type { OctokitClient } from '../github/client';
+import type { FeedbackStore } from './feedback-store';
+import { reactionSignal } from './signals';
+
+export interface ReactionPollerOptions {
+  intervalMs: number;
+  windowMs: number; // comments older than this are no longer polled
+}
+
+export class ReactionPoller {
+  private store: FeedbackStore;
+  private createClient: (installationId: number) => OctokitClient;
+  private options: ReactionPollerOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    store: FeedbackStore,
+    createClient: (installationId: number) => OctokitClient,
+    options: ReactionPollerOptions
+  ) {
+    this.store = store;
+    this.createClient = createClient;
+    this.options = options;
+  }
+
+  start(): void {
+    if (this.timer || this.options.intervalMs <= 0) return;
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error('[FEEDBACK] Reaction poll failed:', error));
+    }, this.options.intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Fetch reactions for every comment in the window; a slow poll is not overlapped
+   */
+  async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const comments = this.store.recentComments(Date.now() - this.options.windowMs);
+      const clients = new Map<number, OctokitClient>();
+
+      for (const comment of comments) {
+        const client =
+          clients.get(comment.installationId) ?? this.createClient(comment.installationId);
+        clients.set(comment.installationId, client);
+        const [owner, name] = comment.repo.split('/') as [string, string];
+
+        try {
+          const reactions = await client.listCommentReactions(owner, name, comment.commentId);
+          this.store.replaceReactions(
+            comment.commentId,
+            reactions.flatMap((r) => {
+              const signal = reactionSignal(r.content);
+              return signal && !client.isBotUser(r.user) ? [{ ...r, signal }] : [];
+            })
+          );
+        } catch (error) {
+          // Deleted comments and uninstalled repos fail here; the rest still get polled
+          console.warn(`[FEEDBACK] Could not fetch reactions for comment ${comment.commentId}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'bun:test';
+import { reactionSignal, replySignal } from './signals';
+
+describe('replySignal', () => {
+  test('reads negative feedback about the answer', () => {
+    expect(replySignal('This is wrong, it is a feature request')).toBe('negative');
+    expect(replySignal('The labels are incorrect')).toBe('negative');
+    expect(replySignal("Sorry, that didn't help")).toBe('negative');
+    expect(replySignal('분류가 틀렸어요')).toBe('negative');
+    expect(replySignal('도움이 안 됐습니다')).toBe('negative');
+    expect(replySignal('👎 wrong area')).toBe('negative');
+  });
+
+  test('checks negative phrases before positive ones', () => {
+    expect(replySignal('Thanks, but this was not helpful')).toBe('negative');
+  });
+
+  test('reads positive feedback', () => {
+    expect(replySignal('Thanks, that worked!')).toBe('positive');
+    expect(replySignal('Spot on, fixed it')).toBe('positive');
+    expect(replySignal('감사합니다, 해결됐어요')).toBe('positive');
+    expect(replySignal('👍')).toBe('positive');
+  });
+
+  test('ignores replies that are not clearly feedback', () => {
+    expect(replySignal('The date picker is wrong in Safari')).toBeNull();
+    expect(replySignal('Can you also look at the mobile layout?')).toBeNull();
+    expect(replySignal('I gave it a 👍 earlier')).toBeNull();
+  });
+});
+
+describe('reactionSignal', () => {
+  test('maps thumbs up / down and ignores other reactions', () => {
+    expect(reactionSignal('+1')).toBe('positive');
+    expect(reactionSignal('-1')).toBe('negative');
+    expect(reactionSignal('heart')).toBeNull();
+  });
+});
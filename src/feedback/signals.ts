@@ -0,0 +1,43 @@
+/**
+ * Feedback Signals
+ * Reads 👍/👎 reactions and "this is wrong" style replies as feedback on bot comments
+ */
+
+import type { FeedbackSignal } from './feedback-store';
+
+// A reply that doesn't mention the bot only counts this soon after the analysis comment;
+// later "thanks" comments are usually about something else
+export const REPLY_FEEDBACK_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Checked before the positive patterns: "not helpful" contains "helpful"
+// Phrased about the answer itself, so bug reports ("this is wrong in Safari") rarely match
+const NEGATIVE_REPLY = [
+  /\b(this|that|it|the (answer|response|labels?|classification))\s*(is|was|are|'s)\s*(wrong|incorrect|not (right|helpful|correct|useful)|misleading|useless)\b/i,
+  /\b(not helpful|(doesn't|does not|didn't|did not) help)\b/i,
+  /틀렸|잘못된 (답변|응답|분류|라벨)|잘못 (답변|분류)|도움이 안\s?(됐|되|돼)|도움 안\s?(됐|되|돼)|엉뚱한/,
+  /^\s*👎/u,
+];
+
+const POSITIVE_REPLY = [
+  /\b(thanks|thank you|helpful|(that|this|it) worked|solved|fixed it|spot on)\b/i,
+  /감사|고마워|고맙|해결됐|해결되었|해결했|도움이 됐|도움이 되었|도움됐|정확합니다/,
+  /^\s*👍/u,
+];
+
+/**
+ * Feedback expressed by a reply, or null if it isn't clearly feedback
+ */
+export function replySignal(body: string): FeedbackSignal | null {
+  if (NEGATIVE_REPLY.some((pattern) => pattern.test(body))) return 'negative';
+  if (POSITIVE_REPLY.some((pattern) => pattern.test(body))) return 'positive';
+  return null;
+}
+
+/**
+ * Feedback expressed by a reaction (GitHub reaction content), or null for other reactions
+ */
+export function reactionSignal(content: string): FeedbackSignal | null {
+  if (content === '+1') return 'positive';
+  if (content === '-1') return 'negative';
+  return null;
+}
@@ -0,0 +1,261 @@
+/**
+ * Automated Fix PRs
+ * Clones a repo into a sandbox, lets Claude edit it, verifies, and opens a draft PR
+ * PRs are always drafts: a human reviews and merges
+ * The git directory is moved out of the sandbox before Claude runs, and every later git call
+ * runs hardened (see github/git.ts), so nothing Claude writes can hook into commit or push
+ */
+
+import { $ } from 'bun';
+import { mkdir, mkdtemp, rename, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import type { ClaudeAgent } from '../claude/agent';
+import { scanOutput, type OutputScan } from '../claude/guardrails';
+import { responseTextFor, type ResponseText } from '../claude/response-text';
+import type { OctokitClient } from '../github/client';
+import { SAFE_GIT_CONFIG, safeGitEnv } from '../github/git';
+import { currentRun } from '../history/analysis-history';
+import type { IssueContext, RepoConfig } from '../types';
+
+const DEFAULT_BRANCH_PREFIX = 'frentis/fix-';
+const DEFAULT_VERIFY_TIMEOUT_MS = 10 * 60 * 1000;
+// Keep only the tail of verification output in comments / PR bodies
+const MAX_OUTPUT_CHARS = 3000;
+// Environment for the verification command; nothing from the server's own environment leaks in
+const VERIFY_ENV: Record<string, string> = {
+  PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+  HOME: process.env.HOME ?? '/tmp',
+  CI: 'true',
+};
+
+export interface VerificationResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null; // null if it was killed by the timeout
+  output: string;
+}
+
+export type AutoFixResult =
+  | {
+      status: 'opened';
+      pullRequest: { number: number; url: string };
+      branch: string;
+      verification?: VerificationResult;
+    }
+  | { status: 'no_changes'; explanation: string }
+  | { status: 'verification_failed'; verification: VerificationResult }
+  | { status: 'blocked'; rules: string[] }; // the change contains secrets or touches git metadata
+
+export class AutoFixRunner {
+  private agent: ClaudeAgent;
+  private workDir: string;
+  private botUsername: string;
+
+  constructor(agent: ClaudeAgent, options: { workDir: string; botUsername: string }) {
+    this.agent = agent;
+    this.workDir = options.workDir;
+    this.botUsername = options.botUsername;
+  }
+
+  /**
+   * Attempt a fix for an issue; the sandbox is always removed afterwards
+   */
+  async run(context: IssueContext, config: RepoConfig, client: OctokitClient): Promise<AutoFixResult> {
+    const { owner, name, default_branch } = context.repository;
+    const settings = config.autoFix;
+    const branch = `${settings?.branchPrefix ?? DEFAULT_BRANCH_PREFIX}${context.issue.number}-${Date.now().toString(36)}`;
+
+    await mkdir(this.workDir, { recursive: true });
+    const sandbox = await mkdtemp(join(this.workDir, `${owner}-${name}-${context.issue.number}-`));
+    const gitDir = `${sandbox}.git`;
+    const git = [`--git-dir=${gitDir}`, `--work-tree=${sandbox}`, ...SAFE_GIT_CONFIG];
+
+    try {
+      console.log(`[FIX] Cloning ${owner}/${name} into ${sandbox}`);
+      await client.cloneRepo(owner, name, sandbox);
+      await rename(join(sandbox, '.git'), gitDir);
+      const gitConfig = await Bun.file(join(gitDir, 'config')).text();
+
+      const explanation = await this.agent.fixIssue(context, sandbox, config.prompt);
+
+      const tampered = await gitTampering(sandbox, gitDir, gitConfig);
+      if (tampered.length > 0) {
+        return { status: 'blocked', rules: tampered };
+      }
+
+      const status = await $`git ${git} status --porcelain`.env(safeGitEnv()).quiet().text();
+      if (!status.trim()) {
+        return { status: 'no_changes', explanation };
+      }
+
+      let verification: VerificationResult | undefined;
+      if (settings?.verifyCommand) {
+        verification = await this.verify(
+          sandbox,
+          settings.verifyCommand,
+          settings.verifyTimeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS
+        );
+        if (!verification.passed) {
+          return { status: 'verification_failed', verification };
+        }
+      }
+
+      // The verification command runs Claude's code too
+      const tamperedByVerify = await gitTampering(sandbox, gitDir, gitConfig);
+      if (tamperedByVerify.length > 0) {
+        return { status: 'blocked', rules: tamperedByVerify };
+      }
+
+      const author = `${this.botUsername}[bot]`;
+      await $`git ${git} add -A`.env(safeGitEnv()).quiet();
+
+      // The branch is public; a change that adds secrets or host paths is never pushed
+      const diff = await $`git ${git} diff --cached --no-color`.env(safeGitEnv()).quiet().text();
+      const scan = scanOutput(addedLines(diff), { repoPath: sandbox });
+      recordScan('fix diff', scan, true);
+      if (scan.findings.length > 0) {
+        return { status: 'blocked', rules: scan.findings.map((f) => f.rule) };
+      }
+
+      await $`git ${git} -c user.name=${author} -c user.email=${author}@users.noreply.github.com commit -m ${`Fix #${context.issue.number}: ${context.issue.title}`}`
+        .env(safeGitEnv())
+        .quiet();
+      await client.pushBranch(owner, name, gitDir, branch);
+      currentRun()?.created('branch', branch);
+
+      const pullRequest = await client.createPullRequest(owner, name, {
+        title: `Fix #${context.issue.number}: ${context.issue.title}`,
+        body: this.buildPullRequestBody(
+          context,
+          explanation,
+          responseTextFor(config.prompt, context),
+          verification
+        ),
+        head: branch,
+        base: default_branch,
+        draft: true,
+      });
+      console.log(`[FIX] Opened draft PR #${pullRequest.number} for #${context.issue.number}`);
+      currentRun()?.created('pull-request', pullRequest.number);
+
+      return { status: 'opened', pullRequest, branch, verification };
+    } finally {
+      await rm(sandbox, { recursive: true, force: true });
+      await rm(gitDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Run the verification command in the working copy, killing it on timeout
+   * The command runs Claude-edited code, so it gets none of the server's secrets:
+   * only a minimal environment, in its own process group so the whole tree can be killed
+   */
+  private async verify(cwd: string, command: string, timeoutMs: number): Promise<VerificationResult> {
+    console.log(`[FIX] Verifying: ${command}`);
+
+    const proc = Bun.spawn(['sh', '-c', `${command} 2>&1`], {
+      cwd,
+      env: VERIFY_ENV,
+      stdout: 'pipe',
+      stderr: 'ignore',
+      detached: true,
+    });
+    const timer = setTimeout(() => killGroup(proc.pid), timeoutMs);
+
+    try {
+      const [output, exitCode] = await Promise.all([new Response(proc.stdout).text(), proc.exited]);
+      const killed = proc.signalCode !== null;
+
+      // The output ends up in a public comment
+      const scan = scanOutput(tail(output), { repoPath: cwd });
+      recordScan('verification output', scan);
+      const shown = scan.blocked ? '[REDACTED: output withheld]' : scan.text;
+
+      return {
+        command,
+        passed: !killed && exitCode === 0,
+        exitCode: killed ? null : exitCode,
+        output: killed ? `${shown}\n(timed out after ${Math.round(timeoutMs / 1000)}s)` : shown,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private buildPullRequestBody(
+    context: IssueContext,
+    explanation: string,
+    text: ResponseText,
+    verification?: VerificationResult
+  ): string {
+    const checks = verification
+      ? text.fixVerificationPassed(verification.command)
+      : text.fixNoVerification;
+
+    return `Closes #${context.issue.number}
+
+${text.fixPullRequestNotice}
+
+### ${text.fixChanges}
+
+${explanation}
+
+### ${text.fixVerification}
+
+${checks}`;
+  }
+}
+
+/**
+ * Log and record what a scan found (never the values)
+ */
+function recordScan(source: string, scan: OutputScan, blocked = scan.blocked): void {
+  if (scan.findings.length === 0) return;
+
+  const rules = scan.findings.map((f) => `${f.rule}×${f.count}`);
+  console.warn(`[GUARDRAIL] ${blocked ? 'Blocked' : 'Redacted'} ${source}: ${rules.join(', ')}`);
+  currentRun()?.guardrail({ source, outcome: blocked ? 'blocked' : 'redacted', rules });
+}
+
+/**
+ * Lines a diff adds, without the leading '+', so line-anchored patterns (.env entries) match
+ */
+function addedLines(diff: string): string {
+  return diff
+    .split('\n')
+    .filter((line) => line.startsWith('+') && !line.startsWith('+++'))
+    .map((line) => line.slice(1))
+    .join('\n');
+}
+
+/**
+ * Signs that the sandbox's code tried to reach git itself: a .git in the sandbox,
+ * or a changed config in the moved-out git directory
+ */
+async function gitTampering(sandbox: string, gitDir: string, gitConfig: string): Promise<string[]> {
+  const rules: string[] = [];
+  if (await exists(join(sandbox, '.git'))) rules.push('git-metadata');
+  if ((await Bun.file(join(gitDir, 'config')).text()) !== gitConfig) rules.push('git-config');
+
+  if (rules.length > 0) console.warn(`[FIX] Refusing to commit: ${rules.join(', ')}`);
+  return rules;
+}
+
+async function exists(path: string): Promise<boolean> {
+  return stat(path).then(
+    () => true,
+    () => false
+  );
+}
+
+function killGroup(pid: number): void {
+  try {
+    process.kill(-pid, 'SIGKILL');
+  } catch {
+    // Already exited
+  }
+}
+
+function tail(output: string): string {
+  return output.length > MAX_OUTPUT_CHARS ? `…${output.slice(-MAX_OUTPUT_CHARS)}` : output;
+}
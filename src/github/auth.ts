@@ -57,6 +57,20 @@ export class GitHubAppAuth {
     return token;
   }
 
+  /**
+   * Get an app-level JWT (for /app endpoints such as listing installations)
+   */
+  async getAppToken(): Promise<string> {
+    const privateKey = await this.privateKeyPromise;
+    const auth = createAppAuth({
+      appId: this.appId,
+      privateKey,
+    });
+
+    const { token } = await auth({ type: 'app' });
+    return token;
+  }
+
   /**
    * Get installation ID from webhook payload
    */
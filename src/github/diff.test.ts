@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'bun:test';
+import { commentableLines, numberPatch, partitionReviewComments } from './diff';
+import type { PullRequestFile } from '../types';
+
+// Two hunks: new-file lines 10-13 and 40-41
+const PATCH = [
+  '@@ -10,3 +10,4 @@ export function start() {',
+  '   const a = 1;',
+  '-  const b = 2;',
+  '+  const b = 3;',
+  '+  const c = 4;',
+  '   return a + b;',
+  '@@ -39,2 +40,2 @@',
+  ' }',
+  '-// old',
+  '+// new',
+  '\\ No newline at end of file',
+  '',
+].join('\n');
+
+function file(filename: string, patch?: string): PullRequestFile {
+  return { filename, status: 'modified', additions: 1, deletions: 1, patch };
+}
+
+describe('commentableLines', () => {
+  test('collects added and context lines of every hunk', () => {
+    expect([...commentableLines(PATCH)]).toEqual([10, 11, 12, 13, 40, 41]);
+  });
+});
+
+describe('numberPatch', () => {
+  test('prefixes lines with their new-file line number', () => {
+    expect(numberPatch(PATCH).split('\n')).toEqual([
+      '      @@ -10,3 +10,4 @@ export function start() {',
+      '   10    const a = 1;',
+      '      -  const b = 2;',
+      '   11 +  const b = 3;',
+      '   12 +  const c = 4;',
+      '   13    return a + b;',
+      '      @@ -39,2 +40,2 @@',
+      '   40  }',
+      '      -// old',
+      '   41 +// new',
+      '      \\ No newline at end of file',
+    ]);
+  });
+});
+
+describe('partitionReviewComments', () => {
+  const files = [file('src/a.ts', PATCH), file('assets/logo.png')];
+
+  test('keeps comments on lines inside the diff inline', () => {
+    const comments = [
+      { path: 'src/a.ts', line: 11, body: 'single line' },
+      { path: 'src/a.ts', startLine: 10, line: 13, body: 'range in one hunk' },
+    ];
+
+    expect(partitionReviewComments(comments, files)).toEqual({ inline: comments, outside: [] });
+  });
+
+  test('moves comments that cannot be placed inline outside', () => {
+    const comments = [
+      { path: 'src/a.ts', line: 20, body: 'between hunks' },
+      { path: 'src/a.ts', startLine: 12, line: 40, body: 'range across hunks' },
+      { path: 'src/b.ts', line: 1, body: 'file not in the diff' },
+      { path: 'assets/logo.png', line: 1, body: 'file without a patch' },
+    ];
+
+    expect(partitionReviewComments(comments, files)).toEqual({ inline: [], outside: comments });
+  });
+});
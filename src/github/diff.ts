@@ -0,0 +1,85 @@
+/**
+ * Diff Helpers
+ * Line bookkeeping for unified diff patches returned by the Pulls API
+ */
+
+import type { PullRequestFile, ReviewComment } from '../types';
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * New-file line numbers that appear in a patch (added or context lines)
+ * Review comments can only be placed on these lines
+ */
+export function commentableLines(patch: string): Set<number> {
+  const lines = new Set<number>();
+  walkPatch(patch, (line) => {
+    if (line.newLine !== null) lines.add(line.newLine);
+  });
+  return lines;
+}
+
+/**
+ * Prefix each patch line with its new-file line number so the model can cite lines
+ */
+export function numberPatch(patch: string): string {
+  const out: string[] = [];
+  walkPatch(patch, ({ text, newLine }) => {
+    out.push(`${newLine === null ? '' : newLine}`.padStart(5) + ` ${text}`);
+  });
+  return out.join('\n');
+}
+
+/**
+ * Split review comments into ones that can be posted inline and ones that can't
+ * (file not in the diff, or a line outside its hunks)
+ */
+export function partitionReviewComments<T extends ReviewComment>(
+  comments: T[],
+  files: PullRequestFile[]
+): { inline: T[]; outside: T[] } {
+  const lines = new Map(
+    files
+      .filter((f) => f.patch)
+      .map((f) => [f.filename, commentableLines(f.patch!)])
+  );
+
+  const inline: T[] = [];
+  const outside: T[] = [];
+  for (const comment of comments) {
+    const fileLines = lines.get(comment.path);
+    const start = Math.min(comment.startLine ?? comment.line, comment.line);
+    // Multi-line comments need every line of the range inside the same hunk
+    let placeable = Boolean(fileLines);
+    for (let line = start; placeable && line <= comment.line; line++) {
+      placeable = fileLines!.has(line);
+    }
+
+    if (placeable) inline.push(comment);
+    else outside.push(comment);
+  }
+  return { inline, outside };
+}
+
+function walkPatch(
+  patch: string,
+  visit: (line: { text: string; newLine: number | null }) => void
+): void {
+  let newLine = 0;
+
+  for (const text of patch.split('\n')) {
+    // Context lines always carry a leading space, so an empty string is just a trailing newline
+    if (text === '') continue;
+
+    const hunk = HUNK_HEADER.exec(text);
+    if (hunk) {
+      newLine = Number(hunk[1]);
+      visit({ text, newLine: null });
+    } else if (text.startsWith('-') || text.startsWith('\\')) {
+      // Removed line or "\ No newline at end of file"
+      visit({ text, newLine: null });
+    } else {
+      visit({ text, newLine: newLine++ });
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Git in Untrusted Working Trees
+ * Once Claude has edited a checkout, git must not run anything the checkout can plant
+ * (hooks, fsmonitor) or see the server's environment
+ */
+
+// Passed as -c so they win over anything in the repository's own config
+export const SAFE_GIT_CONFIG = ['-c', 'core.hooksPath=/dev/null', '-c', 'core.fsmonitor=false'];
+
+/**
+ * Minimal environment for git, ignoring system and user config
+ * Extra config (e.g. an auth header) goes through the environment, so it never shows up
+ * in a URL, an argument list or .git/config
+ */
+export function safeGitEnv(config: Record<string, string> = {}): Record<string, string> {
+  const env: Record<string, string> = {
+    PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+    HOME: process.env.HOME ?? '/tmp',
+    GIT_CONFIG_NOSYSTEM: '1',
+    GIT_CONFIG_GLOBAL: '/dev/null',
+    GIT_TERMINAL_PROMPT: '0',
+  };
+
+  const entries = Object.entries(config);
+  env.GIT_CONFIG_COUNT = String(entries.length);
+  entries.forEach(([key, value], i) => {
+    env[`GIT_CONFIG_KEY_${i}`] = key;
+    env[`GIT_CONFIG_VALUE_${i}`] = value;
+  });
+  return env;
+}
+
+/**
+ * http.extraheader value authenticating as a GitHub App installation
+ */
+export function installationAuthHeader(token: string): string {
+  return `AUTHORIZATION: basic ${Buffer.from(`x-access-token:${token}`).toString('base64')}`;
+}
@@ -0,0 +1,36 @@
+/**
+ * App Installations
+ * Lists every repository the GitHub App is installed on (for startup reconciliation)
+ */
+
+import { Octokit } from '@octokit/rest';
+import type { GitHubAppAuth } from './auth';
+import type { InstalledRepository } from '../types';
+
+/**
+ * List repositories across all installations of the app
+ */
+export async function listInstalledRepositories(
+  auth: GitHubAppAuth
+): Promise<InstalledRepository[]> {
+  const appOctokit = new Octokit({ auth: await auth.getAppToken() });
+  const installations = await appOctokit.paginate(appOctokit.apps.listInstallations, {
+    per_page: 100,
+  });
+
+  const repos: InstalledRepository[] = [];
+  for (const installation of installations) {
+    // Repository listing needs the installation's own token
+    const octokit = new Octokit({ auth: await auth.getInstallationToken(installation.id) });
+    const accessible = await octokit.paginate(
+      octokit.apps.listReposAccessibleToInstallation,
+      { per_page: 100 }
+    );
+
+    for (const repo of accessible) {
+      repos.push({ owner: repo.owner.login, name: repo.name, installationId: installation.id });
+    }
+  }
+
+  return repos;
+}
@@ -0,0 +1,14 @@
+/**
+ * Markdown Helpers
+ * Formatting for text embedded in comments GitHub renders
+ */
+
+/**
+ * Fenced code block that its content can't close
+ * The fence is longer than any backtick run in the content
+ */
+export function codeBlock(content: string, language = ''): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${content.replace(/\n$/, '')}\n${fence}`;
+}
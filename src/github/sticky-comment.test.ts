@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test';
+import { findStickyComments, parseStickyComment, renderStickyComment } from './sticky-comment';
+import { responseText } from '../claude/response-text';
+
+const text = responseText('en');
+const now = new Date('2026-03-01T12:00:00.000Z');
+
+describe('renderStickyComment / parseStickyComment', () => {
+  test('round-trips the current version without history', () => {
+    const body = renderStickyComment('  Looks like a bug.\n', [], 5, text, now);
+
+    expect(parseStickyComment(body)).toEqual({
+      current: { postedAt: now.toISOString(), body: 'Looks like a bug.' },
+      history: [],
+    });
+  });
+
+  test('round-trips earlier versions, newest first', () => {
+    const previous = [
+      { postedAt: '2026-02-20T09:30:00.000Z', body: 'Second answer\n\nwith **markdown**' },
+      { postedAt: '2026-02-10T08:00:00.000Z', body: 'First answer' },
+    ];
+
+    const body = renderStickyComment('Third answer', previous, 5, text, now);
+
+    expect(body).toContain('**2026-02-20 09:30 UTC**');
+    expect(parseStickyComment(body)).toEqual({
+      current: { postedAt: now.toISOString(), body: 'Third answer' },
+      history: previous,
+    });
+  });
+
+  test('keeps only the newest versions up to the history limit', () => {
+    const previous = [1, 2, 3].map((n) => ({
+      postedAt: `2026-02-0${n}T00:00:00.000Z`,
+      body: `v${n}`,
+    }));
+
+    const parsed = parseStickyComment(renderStickyComment('current', previous, 2, text, now));
+
+    expect(parsed?.history.map((v) => v.body)).toEqual(['v1', 'v2']);
+  });
+
+  test("drops the oldest versions to stay under GitHub's size limit", () => {
+    const previous = [1, 2, 3].map((n) => ({
+      postedAt: `2026-02-0${n}T00:00:00.000Z`,
+      body: `${n}`.repeat(25_000),
+    }));
+
+    const body = renderStickyComment('current', previous, 5, text, now);
+
+    expect(body.length).toBeLessThanOrEqual(65_000);
+    expect(parseStickyComment(body)?.history.map((v) => v.body[0])).toEqual(['1', '2']);
+  });
+
+  test('returns null for comments without the sticky header', () => {
+    expect(parseStickyComment('Just a regular comment')).toBeNull();
+  });
+});
+
+describe('findStickyComments', () => {
+  test("only matches the bot's comments with the sticky header", () => {
+    const sticky = renderStickyComment('answer', [], 5, text, now);
+    const comment = (id: number, author: string, body: string) => ({
+      id,
+      author,
+      body,
+      createdAt: '2026-03-01T12:00:00Z',
+      isBot: author.endsWith('[bot]'),
+    });
+    const comments = [
+      comment(1, 'frentis-agent[bot]', sticky),
+      comment(2, 'octocat', sticky),
+      comment(3, 'frentis-agent[bot]', 'Plain reply'),
+    ];
+
+    const found = findStickyComments(comments, (user) => user.endsWith('[bot]'));
+
+    expect(found.map((c) => c.id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Sticky Comments
+ * Keeps one bot comment per issue for triage results, edited in place with a history
+ * of earlier versions instead of a new comment per mention
+ */
+
+import type { OctokitClient } from './client';
+import type { CommentInfo, IssueContext, StickyCommentConfig } from '../types';
+import type { ResponseText } from '../claude/response-text';
+
+export const DEFAULT_STICKY_COMMENT: StickyCommentConfig = {
+  enabled: false,
+  historyLimit: 5,
+};
+
+// Hidden markers; the header also records when the current version was posted
+const HEADER = /^<!-- frentis:sticky updated=(\S+) -->\n/;
+const HISTORY_MARKER = '<!-- frentis:history -->';
+const ENTRY_MARKER = /<!-- frentis:entry (\S+) -->\n/;
+
+// GitHub rejects comment bodies over 65536 characters
+const MAX_BODY_CHARS = 65_000;
+
+interface StickyVersion {
+  postedAt: string;
+  body: string;
+}
+
+/**
+ * The bot's sticky comments on an issue, oldest first
+ */
+export function findStickyComments(
+  comments: CommentInfo[],
+  isBotUser: (username: string) => boolean
+): CommentInfo[] {
+  return comments.filter((c) => isBotUser(c.author) && HEADER.test(c.body));
+}
+
+/**
+ * Split a sticky comment body into its current version and history (newest first)
+ */
+export function parseStickyComment(body: string): { current: StickyVersion; history: StickyVersion[] } | null {
+  const header = body.match(HEADER);
+  if (!header) return null;
+
+  const rest = body.slice(header[0].length);
+  const historyStart = rest.indexOf(`\n\n${HISTORY_MARKER}`);
+  const current = {
+    postedAt: header[1]!,
+    body: (historyStart === -1 ? rest : rest.slice(0, historyStart)).trim(),
+  };
+  if (historyStart === -1) return { current, history: [] };
+
+  // split() with a capture group alternates [before, postedAt, body, postedAt, body, ...]
+  const parts = rest
+    .slice(historyStart)
+    .replace(/\n*<\/details>\s*$/, '')
+    .split(ENTRY_MARKER);
+  const history: StickyVersion[] = [];
+  for (let i = 1; i + 1 < parts.length; i += 2) {
+    // Drop the rendered timestamp line that precedes each entry body
+    history.push({ postedAt: parts[i]!, body: parts[i + 1]!.replace(/^\*\*[^\n]*\*\*\n\n/, '').trim() });
+  }
+  return { current, history };
+}
+
+/**
+ * Render a sticky comment: the new response, then earlier versions in a collapsed section
+ * The oldest versions are dropped past the history limit or GitHub's size limit
+ */
+export function renderStickyComment(
+  response: string,
+  previous: StickyVersion[],
+  historyLimit: number,
+  text: ResponseText,
+  now = new Date()
+): string {
+  const head = `<!-- frentis:sticky updated=${now.toISOString()} -->\n${response.trim()}`;
+  const history = previous.slice(0, historyLimit);
+
+  for (;;) {
+    if (history.length === 0) return head;
+
+    const entries = history.map(
+      (v) => `<!-- frentis:entry ${v.postedAt} -->\n**${formatTimestamp(v.postedAt)}**\n\n${v.body}`
+    );
+    const body = [
+      head,
+      '',
+      HISTORY_MARKER,
+      '<details>',
+      `<summary>${text.stickyHistory(history.length)}</summary>`,
+      '',
+      entries.join('\n\n'),
+      '',
+      '</details>',
+    ].join('\n');
+
+    if (body.length <= MAX_BODY_CHARS) return body;
+    history.pop();
+  }
+}
+
+/**
+ * Post a triage response as the issue's sticky comment: edit the existing one,
+ * or create it if there is none. Extra sticky comments (e.g. from a race) are deleted
+ * Comments are fetched when not given
+ */
+export async function upsertStickyComment(
+  client: OctokitClient,
+  context: IssueContext,
+  response: string,
+  config: StickyCommentConfig,
+  text: ResponseText,
+  comments?: CommentInfo[]
+): Promise<{ id: number; updated: boolean }> {
+  const { owner, name } = context.repository;
+  const issueNumber = context.issue.number;
+
+  const existing = findStickyComments(
+    comments ?? (await client.getIssueComments(owner, name, issueNumber)),
+    (username) => client.isBotUser(username)
+  );
+  const latest = existing[existing.length - 1];
+  const parsed = latest ? parseStickyComment(latest.body) : null;
+
+  if (!latest || !parsed) {
+    const body = renderStickyComment(response, [], config.historyLimit, text);
+    const result = await client.createComment(owner, name, issueNumber, body);
+    return { id: result.id, updated: false };
+  }
+
+  const body = renderStickyComment(
+    response,
+    [parsed.current, ...parsed.history],
+    config.historyLimit,
+    text
+  );
+  await client.updateComment(owner, name, latest.id, body);
+
+  for (const duplicate of existing.slice(0, -1)) {
+    await client.deleteComment(owner, name, duplicate.id).catch((error) => {
+      console.warn(`[STICKY] Failed to delete duplicate comment ${duplicate.id}:`, error);
+    });
+  }
+
+  return { id: latest.id, updated: true };
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime())
+    ? iso
+    : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
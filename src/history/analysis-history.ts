@@ -0,0 +1,426 @@
+/**
+ * Analysis History
+ * Audit log of every analysis run: the delivery that triggered it, what the model
+ * concluded, what the bot did on GitHub, errors and timing, persisted in SQLite
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Database } from 'bun:sqlite';
+import { z } from 'zod';
+import { openDatabase } from '../storage/database';
+import type { AnalysisResult, PromptConfig } from '../types';
+
+export const ANALYSIS_KINDS = [
+  'issue', // new issue (auto triage)
+  'conversation', // mention in an issue comment
+  'command', // slash command
+  'pr-summary',
+  'pr-review',
+  'review-thread',
+  'discussion',
+  'duplicate', // duplicate notice on a new issue
+  'manual', // POST /analyze (no webhook delivery)
+] as const;
+export type AnalysisKind = (typeof ANALYSIS_KINDS)[number];
+
+export const ANALYSIS_STATUSES = ['running', 'succeeded', 'failed'] as const;
+export type AnalysisStatus = (typeof ANALYSIS_STATUSES)[number];
+
+export type AnalysisActionType =
+  | 'labels'
+  | 'labels-removed'
+  | 'comment'
+  | 'sticky-comment'
+  | 'review'
+  | 'review-reply'
+  | 'discussion-comment'
+  | 'branch'
+  | 'pull-request';
+
+export interface AnalysisAction {
+  type: AnalysisActionType;
+  id?: number | string; // comment / review / discussion comment posted or edited, branch pushed, PR opened
+  labels?: string[]; // labels added or removed
+  at: number;
+}
+
+export interface RenderedPrompt {
+  systemPrompt?: string; // set on the first prompt of a session
+  prompt: string;
+  at: number;
+}
+
+export interface GuardrailRecord {
+  source: string; // what was checked, e.g. 'issue body', 'reply', 'fix diff'
+  outcome: 'flagged' | 'redacted' | 'blocked'; // flagged: input that looks like an injection attempt
+  rules: string[]; // matched patterns, e.g. 'ignore-instructions', 'github-token×2'
+  at: number;
+}
+
+export interface AnalysisRecord {
+  id: number;
+  deliveryId: string; // x-github-delivery ID; retried jobs add one record per attempt
+  repo: string; // owner/name
+  number: number; // issue, PR or discussion number
+  kind: AnalysisKind;
+  command: string | null; // slash command name
+  request: string | null; // what was asked (command arguments, review instructions)
+  prompt: PromptConfig | null; // repo prompt settings in effect
+  prompts: RenderedPrompt[]; // prompts sent to Claude, in order
+  analysis: AnalysisResult | null; // issue analyses only
+  response: string | null; // text posted to GitHub
+  actions: AnalysisAction[];
+  guardrails: GuardrailRecord[]; // why input was flagged or output redacted / blocked
+  status: AnalysisStatus;
+  error: string | null;
+  startedAt: number;
+  finishedAt: number | null;
+  durationMs: number | null;
+}
+
+/**
+ * List entry: the record without its large fields
+ */
+export type AnalysisSummary = Omit<AnalysisRecord, 'prompt' | 'prompts' | 'analysis' | 'response'> & {
+  classification: AnalysisResult['classification'] | null;
+  confidence: number | null;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * GET /analyses query string
+ */
+export const analysisQuerySchema = z.object({
+  repo: z.string().regex(/^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/, 'expected owner/name').optional(),
+  number: z.coerce.number().int().positive().optional(),
+  kind: z.enum(ANALYSIS_KINDS).optional(),
+  status: z.enum(ANALYSIS_STATUSES).optional(),
+  type: z.string().min(1).optional(), // classification type
+  delivery: z.string().min(1).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AnalysisQuery = z.infer<typeof analysisQuerySchema>;
+
+export interface AnalysisPage {
+  analyses: AnalysisSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+interface AnalysisRow {
+  id: number;
+  delivery_id: string;
+  repo: string;
+  number: number;
+  kind: AnalysisKind;
+  command: string | null;
+  request: string | null;
+  prompt: string | null;
+  prompts: string;
+  analysis: string | null;
+  response: string | null;
+  actions: string;
+  guardrails: string;
+  status: AnalysisStatus;
+  error: string | null;
+  started_at: number;
+  finished_at: number | null;
+}
+
+export class AnalysisHistory {
+  private db: Database;
+
+  constructor(dbPath: string) {
+    this.db = openDatabase(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS analyses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        delivery_id TEXT NOT NULL,
+        repo TEXT NOT NULL,
+        number INTEGER NOT NULL,
+        kind TEXT NOT NULL,
+        command TEXT,
+        request TEXT,
+        prompt TEXT,
+        prompts TEXT NOT NULL DEFAULT '[]',
+        analysis TEXT,
+        response TEXT,
+        actions TEXT NOT NULL DEFAULT '[]',
+        guardrails TEXT NOT NULL DEFAULT '[]',
+        status TEXT NOT NULL,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_analyses_repo ON analyses (repo, number, started_at);
+      CREATE INDEX IF NOT EXISTS idx_analyses_delivery ON analyses (delivery_id);
+      CREATE INDEX IF NOT EXISTS idx_analyses_started ON analyses (started_at);
+    `);
+  }
+
+  /**
+   * Record the start of a run; the record stays 'running' until the run finishes
+   * Inside withRunScope the run also becomes the scope's current run
+   */
+  start(run: {
+    deliveryId: string;
+    repo: string;
+    number: number;
+    kind: AnalysisKind;
+    command?: string;
+    request?: string;
+    prompt?: PromptConfig;
+  }): AnalysisRun {
+    const startedAt = Date.now();
+    const result = this.db
+      .query(
+        `INSERT INTO analyses
+         (delivery_id, repo, number, kind, command, request, prompt, status, started_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 'running', ?)`
+      )
+      .run(
+        run.deliveryId,
+        run.repo,
+        run.number,
+        run.kind,
+        run.command ?? null,
+        run.request || null,
+        run.prompt ? JSON.stringify(run.prompt) : null,
+        startedAt
+      );
+    const analysisRun = new AnalysisRun(this, Number(result.lastInsertRowid));
+    const scope = runScope.getStore();
+    if (scope) scope.run = analysisRun;
+    return analysisRun;
+  }
+
+  /**
+   * Store a finished run's outcome
+   */
+  finish(
+    id: number,
+    outcome: {
+      status: Exclude<AnalysisStatus, 'running'>;
+      analysis: AnalysisResult | null;
+      prompts: RenderedPrompt[];
+      response: string | null;
+      actions: AnalysisAction[];
+      guardrails: GuardrailRecord[];
+      error: string | null;
+    }
+  ): void {
+    this.db
+      .query(
+        `UPDATE analyses SET status = ?, analysis = ?, prompts = ?, response = ?, actions = ?, guardrails = ?,
+         error = ?, finished_at = ? WHERE id = ?`
+      )
+      .run(
+        outcome.status,
+        outcome.analysis ? JSON.stringify(outcome.analysis) : null,
+        JSON.stringify(outcome.prompts),
+        outcome.response,
+        JSON.stringify(outcome.actions),
+        JSON.stringify(outcome.guardrails),
+        outcome.error,
+        Date.now(),
+        id
+      );
+  }
+
+  /**
+   * Fail runs left running by a previous process (crash/restart)
+   */
+  recoverRunning(): number {
+    const result = this.db
+      .query(
+        `UPDATE analyses SET status = 'failed', error = 'interrupted by server restart', finished_at = ?
+         WHERE status = 'running'`
+      )
+      .run(Date.now());
+    return result.changes;
+  }
+
+  get(id: number): AnalysisRecord | null {
+    const row = this.db.query<AnalysisRow, [number]>('SELECT * FROM analyses WHERE id = ?').get(id);
+    return row ? toRecord(row) : null;
+  }
+
+  /**
+   * Filtered page of runs, most recent first
+   */
+  list(query: AnalysisQuery): AnalysisPage {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    const where = (condition: string, value: string | number) => {
+      conditions.push(condition);
+      params.push(value);
+    };
+
+    if (query.repo) where('repo = ?', query.repo);
+    if (query.number !== undefined) where('number = ?', query.number);
+    if (query.kind) where('kind = ?', query.kind);
+    if (query.status) where('status = ?', query.status);
+    if (query.type) where(`json_extract(analysis, '$.classification.type') = ?`, query.type);
+    if (query.delivery) where('delivery_id = ?', query.delivery);
+    if (query.since) where('started_at >= ?', query.since.getTime());
+    if (query.until) where('started_at < ?', query.until.getTime());
+
+    const clause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { total } = this.db
+      .query<{ total: number }, Array<string | number>>(`SELECT COUNT(*) AS total FROM analyses ${clause}`)
+      .get(...params)!;
+    const rows = this.db
+      .query<AnalysisRow, Array<string | number>>(
+        `SELECT * FROM analyses ${clause} ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?`
+      )
+      .all(...params, query.limit, query.offset);
+
+    return {
+      analyses: rows.map(toSummary),
+      total,
+      limit: query.limit,
+      offset: query.offset,
+    };
+  }
+}
+
+/**
+ * One run in progress: collects the analysis, actions and response, written when it finishes
+ */
+export class AnalysisRun {
+  private history: AnalysisHistory;
+  readonly id: number;
+  private result: AnalysisResult | null = null;
+  private prompts: RenderedPrompt[] = [];
+  private response: string | null = null;
+  private actions: AnalysisAction[] = [];
+  private guardrails: GuardrailRecord[] = [];
+  private finished = false;
+
+  constructor(history: AnalysisHistory, id: number) {
+    this.history = history;
+    this.id = id;
+  }
+
+  analysis(result: AnalysisResult): void {
+    this.result = result;
+  }
+
+  /**
+   * A prompt sent to Claude, as rendered
+   */
+  prompt(prompt: Omit<RenderedPrompt, 'at'>): void {
+    this.prompts.push({ ...prompt, at: Date.now() });
+  }
+
+  labels(labels: string[]): void {
+    this.actions.push({ type: 'labels', labels, at: Date.now() });
+  }
+
+  labelsRemoved(labels: string[]): void {
+    this.actions.push({ type: 'labels-removed', labels, at: Date.now() });
+  }
+
+  /**
+   * A branch pushed or pull request opened (they don't change the run's response)
+   */
+  created(type: 'branch' | 'pull-request', id: number | string): void {
+    this.actions.push({ type, id, at: Date.now() });
+  }
+
+  /**
+   * Something was posted to GitHub; the last posted text is kept as the run's response
+   */
+  posted(type: 'comment' | 'sticky-comment' | 'review' | 'review-reply' | 'discussion-comment', id: number | string, body: string): void {
+    this.actions.push({ type, id, at: Date.now() });
+    this.response = body;
+  }
+
+  guardrail(record: Omit<GuardrailRecord, 'at'>): void {
+    this.guardrails.push({ ...record, at: Date.now() });
+  }
+
+  succeed(): void {
+    this.finish('succeeded', null);
+  }
+
+  fail(error: unknown): void {
+    this.finish('failed', error instanceof Error ? error.message : String(error));
+  }
+
+  private finish(status: Exclude<AnalysisStatus, 'running'>, error: string | null): void {
+    if (this.finished) return;
+    this.finished = true;
+
+    // The audit log must never fail the run it describes
+    try {
+      this.history.finish(this.id, {
+        status,
+        analysis: this.result,
+        prompts: this.prompts,
+        response: this.response,
+        actions: this.actions,
+        guardrails: this.guardrails,
+        error,
+      });
+    } catch (e) {
+      console.error(`[HISTORY] Failed to record analysis ${this.id}:`, e);
+    }
+  }
+}
+
+// The run of the job being processed, so deeper layers (agent, /fix) can add to its record
+const runScope = new AsyncLocalStorage<{ run?: AnalysisRun }>();
+
+/**
+ * Run fn in a scope whose runs are visible to currentRun()
+ */
+export function withRunScope<T>(fn: () => Promise<T>): Promise<T> {
+  return runScope.run({}, fn);
+}
+
+/**
+ * The latest run started in the current scope, if any
+ */
+export function currentRun(): AnalysisRun | undefined {
+  return runScope.getStore()?.run;
+}
+
+function toRecord(row: AnalysisRow): AnalysisRecord {
+  return {
+    id: row.id,
+    deliveryId: row.delivery_id,
+    repo: row.repo,
+    number: row.number,
+    kind: row.kind,
+    command: row.command,
+    request: row.request,
+    prompt: row.prompt ? JSON.parse(row.prompt) : null,
+    prompts: JSON.parse(row.prompts),
+    analysis: row.analysis ? JSON.parse(row.analysis) : null,
+    response: row.response,
+    actions: JSON.parse(row.actions),
+    guardrails: JSON.parse(row.guardrails),
+    status: row.status,
+    error: row.error,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    durationMs: row.finished_at !== null ? row.finished_at - row.started_at : null,
+  };
+}
+
+function toSummary(row: AnalysisRow): AnalysisSummary {
+  const { prompt, prompts, analysis, response, ...record } = toRecord(row);
+  return {
+    ...record,
+    classification: analysis?.classification ?? null,
+    confidence: analysis?.confidence ?? null,
+  };
+}
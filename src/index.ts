@@ -9,23 +9,95 @@
 import { Hono } from 'hono';
 import { logger } from 'hono/logger';
 import { cors } from 'hono/cors';
-import { loadConfig, loadReposConfig } from './config';
+import { loadConfig } from './config';
+import { RepoRegistry } from './config/repo-registry';
 import { WebhookHandler } from './webhook/handler';
-import type { RepoConfig } from './types';
+import { JobQueue } from './queue/job-queue';
+import { WorkerPool } from './queue/worker-pool';
+import { createLoopStateStore } from './webhook/loop-store';
+import { IssueIndex } from './analyzer/issue-index';
+import { FeedbackStore } from './feedback/feedback-store';
+import { ReactionPoller } from './feedback/reaction-poller';
+import { AnalysisHistory, analysisQuerySchema, withRunScope } from './history/analysis-history';
+import { OctokitClient } from './github/client';
+import { ApiKeyStore, requireScope } from './api/auth';
 
 // Load configuration
 const config = loadConfig();
-const repos = loadReposConfig();
+
+// Registered repos: API and installation events write through it, hand edits are hot-reloaded
+const registry = new RepoRegistry(config.reposPath);
+await registry.load();
+registry.watch();
+
+// Durable job queue: webhooks are acknowledged immediately, processed in background
+const jobQueue = new JobQueue(config.queue.dbPath);
+
+// Reactions / replies on analysis comments and label corrections
+const feedbackStore = new FeedbackStore(config.feedback.dbPath);
+
+// Audit log of analysis runs; runs cut short by a restart are marked failed
+const analysisHistory = new AnalysisHistory(config.history.dbPath);
+const interrupted = analysisHistory.recoverRunning();
+if (interrupted > 0) {
+  console.warn(`[HISTORY] Marked ${interrupted} interrupted analysis run(s) as failed`);
+}
 
 // Initialize webhook handler with GitHub App config
-const webhookHandler = new WebhookHandler(config.github, repos);
+const webhookHandler = new WebhookHandler(config.github, {
+  jobQueue,
+  registry,
+  // Persistent delivery dedup so restarts/redeliveries don't cause duplicate replies
+  loopStore: createLoopStateStore(config.loopStore),
+  eventTtlMs: config.loopStore.eventTtlMs,
+  issueIndex: new IssueIndex(config.issueIndex.dbPath),
+  registration: config.registration,
+  autoFixWorkDir: config.autoFix.workDir,
+  workspaces: config.workspaces,
+  feedback: feedbackStore,
+  history: analysisHistory,
+});
+
+// Reactions have no webhook event, so recent analysis comments are polled
+new ReactionPoller(feedbackStore, (installationId) => new OctokitClient(config.github, installationId), {
+  intervalMs: config.feedback.pollIntervalMs,
+  windowMs: config.feedback.windowMs,
+}).start();
+
+// Catch up on installation changes missed while the server was down
+if (config.registration.autoRegister) {
+  webhookHandler.reconcileInstallations().catch((error) => {
+    console.error('[REGISTER] Installation reconciliation failed:', error);
+  });
+}
+
+const workerPool = new WorkerPool(
+  jobQueue,
+  (job, finalAttempt) => webhookHandler.processJob(job, finalAttempt),
+  {
+    concurrency: config.queue.concurrency,
+    maxAttempts: config.queue.maxAttempts,
+    backoffBaseMs: config.queue.backoffBaseMs,
+  }
+);
+workerPool.start();
+
+// Admin API keys (hashed on disk); without keys the admin API rejects every request
+const apiKeys = new ApiKeyStore(config.api.keysPath);
+await apiKeys.load();
+if (apiKeys.size === 0) {
+  console.warn(`[AUTH] No API keys in ${config.api.keysPath}; admin API is locked (bun run api-key to create one)`);
+}
 
 // Create Hono app
 const app = new Hono();
 
 // Middleware
 app.use('*', logger());
-app.use('*', cors());
+// Browsers may only call the API from configured origins; webhooks don't need CORS
+if (config.api.corsOrigins.length > 0) {
+  app.use('*', cors({ origin: config.api.corsOrigins }));
+}
 
 // Health check
 app.get('/', (c) => {
@@ -39,6 +111,8 @@ app.get('/', (c) => {
       repos: '/repos',
       health: '/health',
       analyze: '/analyze',
+      queue: '/queue',
+      analyses: '/analyses',
     },
   });
 });
@@ -49,40 +123,95 @@ app.get('/health', (c) => {
 
 // GitHub Webhook endpoint
 app.post('/webhook', async (c) => {
-  return webhookHandler.handle(c.req.raw);
+  const response = await webhookHandler.handle(c.req.raw);
+  workerPool.notify();
+  return response;
+});
+
+// Job queue status and dead-letter management
+app.get('/queue', requireScope(apiKeys, 'read'), (c) => {
+  return c.json({
+    stats: jobQueue.stats(),
+    workers: workerPool.stats(),
+    deadLetters: jobQueue.deadLetters().map(({ payload, ...job }) => job),
+  });
+});
+
+app.post('/queue/dead/:id/retry', requireScope(apiKeys, 'repo-admin'), (c) => {
+  const requeued = jobQueue.requeueDead(c.req.param('id'));
+  if (!requeued) {
+    return c.json({ success: false, error: 'Dead-lettered job not found' }, 404);
+  }
+  workerPool.notify();
+  return c.json({ success: true });
 });
 
 // Repo management API
-app.get('/repos', (c) => {
-  return c.json({ repos });
+app.get('/repos', requireScope(apiKeys, 'read'), (c) => {
+  return c.json({ repos: registry.list() });
 });
 
-app.post('/repos', async (c) => {
-  const body = await c.req.json<RepoConfig>();
-  webhookHandler.addRepo(body);
-  repos.push(body);
+app.post('/repos', requireScope(apiKeys, 'repo-admin'), async (c) => {
+  const result = await registry.create(await c.req.json().catch(() => undefined));
+  if (!result.success) {
+    return c.json({ success: false, error: result.error }, result.reason === 'conflict' ? 409 : 400);
+  }
+  return c.json({ success: true, repo: result.repo }, 201);
+});
 
-  // Persist to file
-  await Bun.write('./repos.json', JSON.stringify(repos, null, 2));
+app.patch('/repos/:owner/:name', requireScope(apiKeys, 'repo-admin'), async (c) => {
+  const { owner, name } = c.req.param();
+  const result = await registry.update(owner, name, await c.req.json().catch(() => undefined));
+  if (!result.success) {
+    return c.json({ success: false, error: result.error }, result.reason === 'not_found' ? 404 : 400);
+  }
+  return c.json({ success: true, repo: result.repo });
+});
 
-  return c.json({ success: true, repo: body });
+app.delete('/repos/:owner/:name', requireScope(apiKeys, 'repo-admin'), async (c) => {
+  const { owner, name } = c.req.param();
+  if (!(await registry.remove(owner, name))) {
+    return c.json({ success: false, error: `${owner}/${name} is not registered` }, 404);
+  }
+  return c.json({ success: true });
 });
 
-app.delete('/repos/:owner/:name', async (c) => {
+app.get('/repos/:owner/:name/feedback', requireScope(apiKeys, 'read'), (c) => {
   const { owner, name } = c.req.param();
-  webhookHandler.removeRepo(owner, name);
+  if (!registry.get(owner, name)) {
+    return c.json({ success: false, error: `${owner}/${name} is not registered` }, 404);
+  }
+  return c.json({ metrics: feedbackStore.metrics(`${owner}/${name}`) });
+});
+
+app.post('/repos/reconcile', requireScope(apiKeys, 'repo-admin'), async (c) => {
+  const result = await webhookHandler.reconcileInstallations();
+  return c.json({ success: true, ...result });
+});
 
-  const index = repos.findIndex((r) => r.owner === owner && r.name === name);
-  if (index !== -1) {
-    repos.splice(index, 1);
-    await Bun.write('./repos.json', JSON.stringify(repos, null, 2));
+// Analysis audit log
+app.get('/analyses', requireScope(apiKeys, 'read'), (c) => {
+  const query = analysisQuerySchema.safeParse(c.req.query());
+  if (!query.success) {
+    const error = query.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    return c.json({ success: false, error }, 400);
   }
+  return c.json(analysisHistory.list(query.data));
+});
 
-  return c.json({ success: true });
+app.get('/analyses/:id', requireScope(apiKeys, 'read'), (c) => {
+  const id = Number(c.req.param('id'));
+  const analysis = Number.isInteger(id) ? analysisHistory.get(id) : null;
+  if (!analysis) {
+    return c.json({ success: false, error: 'Analysis not found' }, 404);
+  }
+  return c.json({ analysis });
 });
 
 // Manual analysis trigger (for testing without webhook)
-app.post('/analyze', async (c) => {
+app.post('/analyze', requireScope(apiKeys, 'analyze'), async (c) => {
   const { owner, repo, issue_number } = await c.req.json<{
     owner: string;
     repo: string;
@@ -91,6 +220,7 @@ app.post('/analyze', async (c) => {
 
   const { createGitHubClient } = await import('./github/client');
   const { ClaudeAgent } = await import('./claude/agent');
+  const { ContextCollector } = await import('./analyzer/context-collector');
 
   const ghClient = createGitHubClient();
   const claudeAgent = new ClaudeAgent();
@@ -127,14 +257,36 @@ app.post('/analyze', async (c) => {
 
   console.log(`[MANUAL] Analyzing ${owner}/${repo}#${issue_number}...`);
 
-  const analysis = await claudeAgent.analyzeIssue(context);
+  // Audited like webhook runs; there is no delivery, so the run gets its own ID
+  const analysis = await withRunScope(async () => {
+    const run = analysisHistory.start({
+      deliveryId: `manual:${crypto.randomUUID()}`,
+      repo: context.repository.full_name,
+      number: issue_number,
+      kind: 'manual',
+    });
+    try {
+      const collectedContext = await new ContextCollector(ghClient).collect(context);
+      const result = await claudeAgent.analyzeIssue(context, undefined, { collectedContext });
+      run.analysis(result);
+      run.succeed();
+      return result;
+    } catch (error) {
+      run.fail(error);
+      throw error;
+    }
+  });
 
   console.log(`[RESULT] Type: ${analysis.classification.type}, Priority: ${analysis.classification.priority}`);
 
   return c.json({
     issue: `${owner}/${repo}#${issue_number}`,
     classification: analysis.classification,
+    classificationValidation: analysis.classificationValidation,
+    confidence: analysis.confidence,
+    confidenceSignals: analysis.confidenceSignals,
     suggestedLabels: analysis.labels,
+    relatedIssues: analysis.relatedIssues,
     response: analysis.response,
   });
 });
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'bun:test';
+import { JobQueue } from './job-queue';
+
+describe('JobQueue', () => {
+  test('ignores a delivery ID that is already queued', () => {
+    const queue = new JobQueue(':memory:');
+
+    expect(queue.enqueue('d1', 'issues', '{}')).toBe(true);
+    expect(queue.enqueue('d1', 'issues', '{"retry":true}')).toBe(false);
+
+    const job = queue.claimNext();
+    expect(job?.payload).toBe('{}');
+    expect(queue.claimNext()).toBeNull();
+  });
+
+  test('claims due jobs in order and counts attempts', () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+
+    const job = queue.claimNext();
+
+    expect(job).toMatchObject({ id: 'd1', status: 'running', attempts: 1 });
+    expect(queue.stats()).toEqual({ pending: 0, running: 1, dead: 0 });
+
+    queue.complete('d1');
+    expect(queue.stats()).toEqual({ pending: 0, running: 0, dead: 0 });
+  });
+
+  test('does not claim a retried job before its run time', () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+    queue.claimNext();
+
+    queue.retry('d1', 'boom', Date.now() + 60_000);
+    expect(queue.claimNext()).toBeNull();
+
+    queue.retry('d1', 'boom', Date.now() - 1);
+    expect(queue.claimNext()).toMatchObject({ id: 'd1', attempts: 2, lastError: 'boom' });
+  });
+
+  test('requeues dead-lettered jobs with a fresh attempt count', () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+    queue.claimNext();
+    queue.markDead('d1', 'boom');
+
+    expect(queue.deadLetters().map((j) => j.id)).toEqual(['d1']);
+    expect(queue.claimNext()).toBeNull();
+
+    expect(queue.requeueDead('d1')).toBe(true);
+    expect(queue.requeueDead('d1')).toBe(false);
+    expect(queue.claimNext()).toMatchObject({ id: 'd1', attempts: 1 });
+  });
+
+  test('recoverRunning puts interrupted jobs back into the queue', () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+    queue.enqueue('d2', 'issues', '{}');
+    queue.claimNext();
+
+    expect(queue.recoverRunning()).toBe(1);
+    expect(queue.stats()).toEqual({ pending: 2, running: 0, dead: 0 });
+  });
+});
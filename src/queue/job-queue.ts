@@ -0,0 +1,184 @@
+/**
+ * Job Queue
+ * Durable webhook job queue backed by SQLite, survives restarts
+ */
+
+import type { Database } from 'bun:sqlite';
+import { openDatabase } from '../storage/database';
+
+export type JobStatus = 'pending' | 'running' | 'dead';
+
+export interface Job {
+  id: string; // x-github-delivery ID
+  name: string; // x-github-event name
+  payload: string; // raw JSON body
+  status: JobStatus;
+  attempts: number;
+  runAt: number;
+  createdAt: number;
+  lastError?: string;
+}
+
+interface JobRow {
+  id: string;
+  name: string;
+  payload: string;
+  status: JobStatus;
+  attempts: number;
+  run_at: number;
+  created_at: number;
+  last_error: string | null;
+}
+
+export class JobQueue {
+  private db: Database;
+
+  constructor(dbPath: string) {
+    this.db = openDatabase(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        run_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS jobs_status_run_at ON jobs (status, run_at);
+    `);
+  }
+
+  /**
+   * Add a job to the queue
+   * Returns false if a job with the same delivery ID already exists
+   */
+  enqueue(id: string, name: string, payload: string): boolean {
+    const now = Date.now();
+    const result = this.db
+      .query(
+        `INSERT OR IGNORE INTO jobs (id, name, payload, status, attempts, run_at, created_at)
+         VALUES (?, ?, ?, 'pending', 0, ?, ?)`
+      )
+      .run(id, name, payload, now, now);
+    return result.changes > 0;
+  }
+
+  /**
+   * Claim the next due job, marking it as running
+   */
+  claimNext(): Job | null {
+    const claim = this.db.transaction((): JobRow | null => {
+      const row = this.db
+        .query<JobRow, [number]>(
+          `SELECT * FROM jobs WHERE status = 'pending' AND run_at <= ?
+           ORDER BY run_at ASC LIMIT 1`
+        )
+        .get(Date.now());
+      if (!row) return null;
+
+      this.db
+        .query(`UPDATE jobs SET status = 'running', attempts = attempts + 1 WHERE id = ?`)
+        .run(row.id);
+      return { ...row, status: 'running', attempts: row.attempts + 1 };
+    });
+
+    const row = claim();
+    return row ? this.toJob(row) : null;
+  }
+
+  /**
+   * Remove a successfully processed job
+   */
+  complete(id: string): void {
+    this.db.query('DELETE FROM jobs WHERE id = ?').run(id);
+  }
+
+  /**
+   * Schedule a failed job for another attempt
+   */
+  retry(id: string, error: string, runAt: number): void {
+    this.db
+      .query(`UPDATE jobs SET status = 'pending', run_at = ?, last_error = ? WHERE id = ?`)
+      .run(runAt, error, id);
+  }
+
+  /**
+   * Move a job to the dead-letter list
+   */
+  markDead(id: string, error: string): void {
+    this.db
+      .query(`UPDATE jobs SET status = 'dead', last_error = ? WHERE id = ?`)
+      .run(error, id);
+  }
+
+  /**
+   * Put a dead-lettered job back into the queue
+   */
+  requeueDead(id: string): boolean {
+    const result = this.db
+      .query(
+        `UPDATE jobs SET status = 'pending', attempts = 0, run_at = ?
+         WHERE id = ? AND status = 'dead'`
+      )
+      .run(Date.now(), id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Reset jobs left running by a previous process (crash/restart)
+   */
+  recoverRunning(): number {
+    const result = this.db
+      .query(`UPDATE jobs SET status = 'pending' WHERE status = 'running'`)
+      .run();
+    return result.changes;
+  }
+
+  /**
+   * List dead-lettered jobs (most recent first)
+   */
+  deadLetters(limit = 50): Job[] {
+    return this.db
+      .query<JobRow, [number]>(
+        `SELECT * FROM jobs WHERE status = 'dead' ORDER BY created_at DESC LIMIT ?`
+      )
+      .all(limit)
+      .map((row) => this.toJob(row));
+  }
+
+  /**
+   * Get queue statistics
+   */
+  stats(): Record<JobStatus, number> {
+    const rows = this.db
+      .query<{ status: JobStatus; count: number }, []>(
+        'SELECT status, COUNT(*) AS count FROM jobs GROUP BY status'
+      )
+      .all();
+
+    const stats: Record<JobStatus, number> = { pending: 0, running: 0, dead: 0 };
+    for (const row of rows) {
+      stats[row.status] = row.count;
+    }
+    return stats;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private toJob(row: JobRow): Job {
+    return {
+      id: row.id,
+      name: row.name,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      runAt: row.run_at,
+      createdAt: row.created_at,
+      lastError: row.last_error ?? undefined,
+    };
+  }
+}
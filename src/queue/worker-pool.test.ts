@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { JobQueue, type Job } from './job-queue';
+import { WorkerPool } from './worker-pool';
+
+/**
+ * Run the pool until the processor has been called `calls` times (or the timeout passes)
+ */
+async function runUntil(pool: WorkerPool, seen: unknown[], calls: number): Promise<void> {
+  pool.start();
+  const deadline = Date.now() + 2_000;
+  while (seen.length < calls && Date.now() < deadline) {
+    await Bun.sleep(5);
+  }
+  await Bun.sleep(10); // let the last run settle
+  pool.stop();
+}
+
+describe('WorkerPool', () => {
+  test('completes jobs that succeed', async () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+    const seen: Array<[string, boolean]> = [];
+
+    const pool = new WorkerPool(
+      queue,
+      async (job, finalAttempt) => {
+        seen.push([job.id, finalAttempt]);
+      },
+      { pollIntervalMs: 5 }
+    );
+    await runUntil(pool, seen, 1);
+
+    expect(seen).toEqual([['d1', false]]);
+    expect(queue.stats()).toEqual({ pending: 0, running: 0, dead: 0 });
+  });
+
+  test('retries with backoff and dead-letters at maxAttempts', async () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+    const seen: Array<{ attempts: number; finalAttempt: boolean; at: number }> = [];
+
+    const pool = new WorkerPool(
+      queue,
+      async (job: Job, finalAttempt) => {
+        seen.push({ attempts: job.attempts, finalAttempt, at: Date.now() });
+        throw new Error(`attempt ${job.attempts} failed`);
+      },
+      { maxAttempts: 3, backoffBaseMs: 20, pollIntervalMs: 5 }
+    );
+    await runUntil(pool, seen, 3);
+
+    expect(seen.map((s) => [s.attempts, s.finalAttempt])).toEqual([
+      [1, false],
+      [2, false],
+      [3, true],
+    ]);
+    // Backoff doubles: 20ms before the 2nd attempt, 40ms before the 3rd
+    expect(seen[1]!.at - seen[0]!.at).toBeGreaterThanOrEqual(20);
+    expect(seen[2]!.at - seen[1]!.at).toBeGreaterThanOrEqual(40);
+
+    const [dead] = queue.deadLetters();
+    expect(dead).toMatchObject({ id: 'd1', status: 'dead', lastError: 'attempt 3 failed' });
+  });
+
+  test('start recovers jobs left running by a previous process', async () => {
+    const queue = new JobQueue(':memory:');
+    queue.enqueue('d1', 'issues', '{}');
+    queue.claimNext(); // interrupted before it finished
+    const seen: number[] = [];
+
+    const pool = new WorkerPool(
+      queue,
+      async (job) => {
+        seen.push(job.attempts);
+      },
+      { pollIntervalMs: 5 }
+    );
+    await runUntil(pool, seen, 1);
+
+    expect(seen).toEqual([2]);
+    expect(queue.stats().pending).toBe(0);
+  });
+});
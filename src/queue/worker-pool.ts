@@ -0,0 +1,116 @@
+/**
+ * Worker Pool
+ * Drains the job queue with bounded concurrency, retries and dead-lettering
+ */
+
+import type { Job, JobQueue } from './job-queue';
+
+// finalAttempt: no retry follows if this run fails (the job is dead-lettered)
+export type JobProcessor = (job: Job, finalAttempt: boolean) => Promise<void>;
+
+export interface WorkerPoolOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  backoffBaseMs?: number; // delay before 1st retry, doubled each attempt
+  pollIntervalMs?: number;
+}
+
+export class WorkerPool {
+  private queue: JobQueue;
+  private processor: JobProcessor;
+  private readonly concurrency: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly pollIntervalMs: number;
+
+  private active = 0;
+  private running = false;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(queue: JobQueue, processor: JobProcessor, options: WorkerPoolOptions = {}) {
+    this.queue = queue;
+    this.processor = processor;
+    this.concurrency = options.concurrency ?? 2;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.backoffBaseMs = options.backoffBaseMs ?? 5_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+  }
+
+  /**
+   * Start draining the queue
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    const recovered = this.queue.recoverRunning();
+    if (recovered > 0) {
+      console.log(`[QUEUE] Recovered ${recovered} interrupted job(s)`);
+    }
+
+    this.pollTimer = setInterval(() => this.drain(), this.pollIntervalMs);
+    this.drain();
+  }
+
+  /**
+   * Stop picking up new jobs (in-flight jobs finish normally)
+   */
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Wake the pool up immediately (e.g. right after enqueue)
+   */
+  notify(): void {
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running && this.active < this.concurrency) {
+      const job = this.queue.claimNext();
+      if (!job) return;
+
+      this.active++;
+      this.run(job).finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    try {
+      await this.processor(job, job.attempts >= this.maxAttempts);
+      this.queue.complete(job.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= this.maxAttempts) {
+        this.queue.markDead(job.id, message);
+        console.error(
+          `[QUEUE] Job ${job.id} (${job.name}) dead-lettered after ${job.attempts} attempts:`,
+          message
+        );
+        return;
+      }
+
+      const delay = this.backoffBaseMs * 2 ** (job.attempts - 1);
+      this.queue.retry(job.id, message, Date.now() + delay);
+      console.warn(
+        `[QUEUE] Job ${job.id} (${job.name}) failed (attempt ${job.attempts}/${this.maxAttempts}), retrying in ${delay}ms`
+      );
+    }
+  }
+
+  /**
+   * Get pool statistics
+   */
+  stats(): { active: number; concurrency: number } {
+    return { active: this.active, concurrency: this.concurrency };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * SQLite Database Helper
+ * Opens local SQLite files used for persistent state (queue, history, ...)
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Open (or create) a SQLite database file, creating its parent directory
+ */
+export function openDatabase(path: string): Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path, { create: true });
+  // WAL keeps readers from blocking the writer
+  db.exec('PRAGMA journal_mode = WAL;');
+  db.exec('PRAGMA busy_timeout = 5000;');
+  return db;
+}
@@ -21,6 +21,49 @@ export interface IssueContext {
   };
 }
 
+/**
+ * Pull request context; the issue fields hold the PR's title/body/author
+ */
+export interface PullRequestContext extends IssueContext {
+  pullRequest: {
+    base: { ref: string; sha: string };
+    head: { ref: string; sha: string };
+    draft: boolean;
+    additions: number;
+    deletions: number;
+  };
+  files: PullRequestFile[];
+}
+
+export interface PullRequestFile {
+  filename: string;
+  status: string; // added, modified, removed, renamed, ...
+  additions: number;
+  deletions: number;
+  patch?: string; // unified diff hunk(s); missing for binary or very large files
+}
+
+export interface PullRequestReview {
+  summary: string; // review body
+  comments: ReviewComment[];
+}
+
+export interface ReviewThreadContext {
+  path: string;
+  diffHunk: string; // hunk the thread is anchored to, ending at the commented line
+  startLine: number | null; // first line of a multi-line comment
+  line: number | null; // null when the comment is outdated
+  side: 'LEFT' | 'RIGHT'; // LEFT = old version of the file
+  comments: CommentInfo[]; // thread history, oldest first
+}
+
+export interface ReviewComment {
+  path: string;
+  line: number; // line in the new version of the file
+  startLine?: number; // first line of a multi-line comment
+  body: string;
+}
+
 export interface AnalysisResult {
   classification: IssueClassification;
   labels: string[];
@@ -28,6 +71,21 @@ export interface AnalysisResult {
   suggestedFix?: CodeSuggestion;
   relatedIssues?: RelatedIssue[];
   confidence: number;
+  confidenceSignals: ConfidenceSignals;
+  classificationValidation: ClassificationValidation;
+}
+
+export interface ConfidenceSignals {
+  schema: ClassificationValidation['status'];
+  selfAssessment?: number; // model's own 0-1 estimate
+  agreement?: number; // share of repeated classifications agreeing with the primary one
+  hasRepoContext: boolean; // codebase was available to the model
+}
+
+export interface ClassificationValidation {
+  status: 'valid' | 'repaired' | 'failed';
+  attempts: number;
+  errors?: string[]; // validation errors from the last failed attempt
 }
 
 export interface IssueClassification {
@@ -40,11 +98,18 @@ export interface CodeSuggestion {
   files: Array<{
     path: string;
     suggestion: string;
-    diff?: string;
+    diff?: string; // unified diff, only kept if it applies to the checkout
   }>;
   explanation: string;
 }
 
+export interface IssueSummary {
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'open' | 'closed';
+}
+
 export interface RelatedIssue {
   number: number;
   title: string;
@@ -69,7 +134,62 @@ export interface AgentConfig {
     port: number;
     host: string;
   };
-  repos: RepoConfig[];
+  queue: QueueConfig;
+  loopStore: LoopStoreConfig;
+  issueIndex: {
+    dbPath: string;
+  };
+  registration: RegistrationConfig;
+  autoFix: {
+    workDir: string; // sandbox clones for /fix are created here
+  };
+  workspaces: WorkspaceConfig;
+  api: {
+    keysPath: string; // hashed admin API keys
+    corsOrigins: string[]; // origins allowed to call the admin API from a browser
+  };
+  reposPath: string; // registered repos (JSON), managed by RepoRegistry
+  feedback: {
+    dbPath: string;
+    pollIntervalMs: number; // reaction polling interval (0 = disabled)
+    windowMs: number; // how long after posting a comment's reactions are polled
+  };
+  history: {
+    dbPath: string; // analysis audit log
+  };
+}
+
+export interface WorkspaceConfig {
+  enabled: boolean; // clone repos without a localPath on demand
+  dir: string; // checkouts live at <dir>/<owner>/<name>
+  maxBytes: number; // disk quota, least-recently-used checkouts are evicted beyond it
+}
+
+export interface RegistrationConfig {
+  autoRegister: boolean; // sync repos from installation events and at startup
+  defaultProfile: RepoProfile; // settings for auto-registered repos
+}
+
+export type RepoProfile = Omit<RepoConfig, 'owner' | 'name' | 'localPath' | 'autoRegistered'>;
+
+export interface InstalledRepository {
+  owner: string;
+  name: string;
+  installationId: number;
+}
+
+export interface QueueConfig {
+  dbPath: string;
+  concurrency: number;
+  maxAttempts: number;
+  backoffBaseMs: number;
+}
+
+export interface LoopStoreConfig {
+  backend: 'memory' | 'sqlite' | 'redis';
+  sqlitePath: string;
+  redisUrl?: string;
+  eventTtlMs: number;
 }
 
 export interface ConversationContext {
@@ -80,6 +200,28 @@ export interface ConversationContext {
   lastBotCommentId?: number;
 }
 
+/**
+ * Discussion variant of ConversationContext (comments come from the GraphQL API)
+ */
+export interface DiscussionConversationContext {
+  discussionNumber: number;
+  discussionId: string; // GraphQL node ID, needed to post comments
+  owner: string;
+  repo: string;
+  category: {
+    name: string;
+    isAnswerable: boolean; // Q&A style category that supports marking an answer
+  };
+  hasAnswer: boolean;
+  comments: DiscussionCommentInfo[]; // top-level comments and replies, oldest first
+}
+
+export interface DiscussionCommentInfo extends CommentInfo {
+  nodeId: string;
+  url: string;
+  parentNodeId?: string; // set for replies to a top-level comment
+}
+
 export interface CommentInfo {
   id: number;
   author: string;
@@ -92,7 +234,121 @@ export interface RepoConfig {
   owner: string;
   name: string;
   localPath?: string; // for code analysis
+  autoRegistered?: boolean; // added from an installation event; removed when the app is uninstalled
   enabled: boolean;
   autoLabel: boolean;
   autoRespond: boolean;
+  confidencePolicy?: ConfidencePolicy;
+  duplicateDetection?: DuplicateDetectionConfig;
+  prompt?: PromptConfig;
+  labels?: LabelTaxonomyConfig;
+  pullRequests?: PullRequestConfig;
+  discussions?: DiscussionConfig;
+  autoFix?: AutoFixConfig; // server-only: runs commands on this host
+  triggerPolicy?: TriggerPolicyConfig; // who may trigger the bot by mention (default: anyone)
+  stickyComment?: StickyCommentConfig; // edit one triage comment instead of posting a new one per mention
+  progress?: ProgressConfig; // feedback while a mention is being handled
+  feedback?: FeedbackConfig; // label corrections and few-shot examples from them
+}
+
+export interface FeedbackConfig {
+  corrections: boolean; // allow maintainers to correct labels with /correct
+  fewShotExamples: number; // corrected issues shown as classification examples (0 = none)
+}
+
+/**
+ * A maintainer-corrected issue, used as a few-shot classification example
+ */
+export interface LabelExample {
+  title: string;
+  body: string | null; // excerpt
+  labels: string[];
+}
+
+export interface ProgressConfig {
+  reactions: boolean; // 👀 while working, then 🚀 / 😕 on the triggering issue or comment
+  placeholder: boolean; // post a "working on it" comment that is replaced by the answer
+}
+
+export type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+/**
+ * What a reaction is attached to: an issue / PR itself, one of its comments, a PR review
+ * comment, or a discussion / discussion comment (by GraphQL node ID)
+ */
+export type ReactionSubject =
+  | { type: 'issue'; issueNumber: number }
+  | { type: 'comment'; commentId: number }
+  | { type: 'review-comment'; commentId: number }
+  | { type: 'discussion'; nodeId: string };
+
+export interface StickyCommentConfig {
+  enabled: boolean;
+  historyLimit: number; // earlier versions kept in the comment's history section
+}
+
+export interface AutoFixConfig {
+  enabled: boolean; // allow /fix
+  verifyCommand?: string; // run in the working copy before pushing, e.g. 'bun test'
+  verifyTimeoutMs?: number; // default 10 minutes
+  branchPrefix?: string; // default 'frentis/fix-'
+}
+
+export type RepoPermission = 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+export interface TriggerPolicyConfig {
+  mode: 'anyone' | 'org-members' | 'collaborators' | 'allowlist'; // allowlist: only users in allow
+  minPermission?: RepoPermission; // collaborators mode, default 'write'
+  allow?: string[]; // usernames always allowed (the only ones in allowlist mode)
+  deny?: string[]; // usernames never allowed (wins over allow)
+  onDenied?: 'reply' | 'ignore'; // default 'reply' (polite refusal comment)
+}
+
+export interface DiscussionConfig {
+  suggestAnswer: boolean; // in Q&A categories, point out an existing comment that answers the question
+}
+
+export interface PullRequestConfig {
+  autoSummary: boolean; // post a summary comment on newly opened PRs
+  autoReview: boolean; // review opened/updated PRs without a mention
+}
+
+export interface LabelTaxonomyConfig {
+  type?: Partial<Record<IssueClassification['type'], string>>; // e.g. { bug: 'kind/bug' }
+  priority?: Partial<Record<IssueClassification['priority'], string>>; // e.g. { critical: 'P0' }
+  area?: Record<string, string>; // e.g. { frontend: 'area/frontend' }
+  allowUnmapped?: boolean; // let Claude also suggest other existing repo labels (default true)
+  sync?: boolean; // create missing taxonomy labels and keep colors/descriptions in sync
+  definitions?: LabelDefinition[]; // colors/descriptions used when syncing
+}
+
+export interface LabelDefinition {
+  name: string;
+  color?: string; // hex without '#', e.g. 'd73a4a'
+  description?: string;
+}
+
+export interface LabelInfo {
+  name: string;
+  color: string;
+  description: string | null;
+}
+
+export interface PromptConfig {
+  language?: string; // response language code (e.g. 'ko', 'en') or 'auto' to match the issue author
+  tone?: string; // tone guideline, e.g. 'Be friendly and encouraging'
+  systemPromptAppend?: string; // extra instructions, supports {{issue.*}} / {{repository.*}} variables
+  responseSections?: string[]; // what the response should cover, replaces the default list
+}
+
+export interface DuplicateDetectionConfig {
+  enabled: boolean; // label + link likely duplicates of newly opened issues
+  threshold: number; // minimum similarity (0-1) to treat as a duplicate
+  label: string; // e.g. 'duplicate'
+}
+
+export interface ConfidencePolicy {
+  autoApplyThreshold: number; // >= this: labels are applied
+  skipBelow: number; // < this: no response at all; in between: labels only suggested
+  samples: number; // classifications to run for the agreement signal (1 = disabled)
 }
@@ -6,35 +6,117 @@
 import { Webhooks } from '@octokit/webhooks';
 import type {
   IssueContext,
+  PullRequestContext,
   RepoConfig,
   GitHubAppConfig,
   ConversationContext,
+  ReviewThreadContext,
+  DiscussionConversationContext,
+  ReactionSubject,
+  InstalledRepository,
+  RegistrationConfig,
+  WorkspaceConfig,
+  CommentInfo,
 } from '../types';
 import { createGitHubClient, OctokitClient } from '../github/client';
 import { GitHubAppAuth } from '../github/auth';
 import { ClaudeAgent } from '../claude/agent';
 import { MentionDetector } from './mention-detector';
-import { LoopPrevention } from './loop-prevention';
+import { LoopPrevention, discussionKey, reviewThreadKey } from './loop-prevention';
+import { DEFAULT_TRIGGER_POLICY, TriggerAuthorizer, deniedMessage } from './trigger-policy';
+import { responseTextFor } from '../claude/response-text';
+import type { LoopStateStore } from './loop-store';
+import type { Job, JobQueue } from '../queue/job-queue';
+import { parseCommand, type ParsedCommand } from '../commands/parser';
+import { CommandDispatcher, type TriageResult } from '../commands/dispatcher';
+import { builtinCommands } from '../commands/handlers';
+import { applyConfidencePolicy, DEFAULT_CONFIDENCE_POLICY } from '../analyzer/confidence';
+import { ContextCollector } from '../analyzer/context-collector';
+import type { IssueIndex } from '../analyzer/issue-index';
+import { LabelManager } from '../analyzer/label-taxonomy';
+import { PullRequestCollector } from '../analyzer/pull-request-collector';
+import { RepoFileConfigLoader, REPO_CONFIG_FILE_PATH } from '../config/repo-file';
+import type { RepoRegistry } from '../config/repo-registry';
+import { listInstalledRepositories } from '../github/installations';
+import { upsertStickyComment } from '../github/sticky-comment';
+import { DEFAULT_PROGRESS, ProgressReporter, isPlaceholderComment } from './progress';
+import { labelExamples, type FeedbackStore } from '../feedback/feedback-store';
+import { REPLY_FEEDBACK_WINDOW_MS, replySignal } from '../feedback/signals';
+import {
+  withRunScope,
+  type AnalysisHistory,
+  type AnalysisKind,
+  type AnalysisRun,
+} from '../history/analysis-history';
+import { AutoFixRunner } from '../fix/auto-fix';
+import { WorkspaceManager } from '../workspace/workspace-manager';
+
+export interface WebhookHandlerOptions {
+  jobQueue: JobQueue;
+  registry: RepoRegistry; // registered repos; the handler follows its changes
+  loopStore?: LoopStateStore;
+  eventTtlMs?: number;
+  issueIndex?: IssueIndex;
+  registration?: RegistrationConfig; // auto-registration from installation events
+  autoFixWorkDir?: string; // sandbox clones for /fix
+  workspaces?: WorkspaceConfig; // managed checkouts for repos without localPath (default: off)
+  feedback?: FeedbackStore; // reactions / replies on analysis comments and label corrections
+  history?: AnalysisHistory; // audit log of analysis runs
+}
 
 export class WebhookHandler {
   private webhooks: Webhooks;
   private githubConfig: GitHubAppConfig;
   private claudeAgent: ClaudeAgent;
-  private repoConfigs: Map<string, RepoConfig>;
+  private registry: RepoRegistry;
+  private repoConfigs: Map<string, RepoConfig> = new Map();
   private mentionDetector: MentionDetector;
   private loopPrevention: LoopPrevention;
+  private jobQueue: JobQueue;
+  private commandDispatcher: CommandDispatcher;
+  private issueIndex?: IssueIndex;
+  private repoFileLoader = new RepoFileConfigLoader();
+  private labelManager = new LabelManager();
+  private triggerAuthorizer = new TriggerAuthorizer();
+  private registration?: RegistrationConfig;
+  private autoFix: AutoFixRunner;
+  private workspaces: WorkspaceManager;
+  private feedback?: FeedbackStore;
+  private history?: AnalysisHistory;
+  // Delivery IDs of jobs on their last attempt (no retry if they fail)
+  private finalAttempts: Set<string> = new Set();
 
-  constructor(config: GitHubAppConfig, repos: RepoConfig[] = []) {
+  constructor(config: GitHubAppConfig, options: WebhookHandlerOptions) {
     this.webhooks = new Webhooks({ secret: config.webhookSecret });
+    this.jobQueue = options.jobQueue;
+    this.issueIndex = options.issueIndex;
+    this.feedback = options.feedback;
+    this.history = options.history;
+    this.registration = options.registration;
     this.githubConfig = config;
     this.claudeAgent = new ClaudeAgent();
-    this.repoConfigs = new Map(
-      repos.map((r) => [`${r.owner}/${r.name}`, r])
+    this.autoFix = new AutoFixRunner(this.claudeAgent, {
+      workDir: options.autoFixWorkDir ?? './data/fix-workspaces',
+      botUsername: config.botUsername,
+    });
+    this.workspaces = new WorkspaceManager(
+      options.workspaces ?? { enabled: false, dir: './data/workspaces', maxBytes: 0 }
     );
+    this.registry = options.registry;
+    this.syncRepoConfigs(this.registry.list());
+    this.registry.subscribe((repos) => this.syncRepoConfigs(repos));
     this.mentionDetector = new MentionDetector(config.botUsername);
-    this.loopPrevention = new LoopPrevention(config.botUsername);
+    this.commandDispatcher = new CommandDispatcher(config.botUsername, builtinCommands);
+    this.loopPrevention = new LoopPrevention(config.botUsername, {
+      store: options.loopStore,
+      eventTtlMs: options.eventTtlMs,
+    });
 
     this.setupHandlers();
+    this.setupPullRequestHandlers();
+    this.setupReviewCommentHandlers();
+    this.setupDiscussionHandlers();
+    this.setupInstallationHandlers();
   }
 
   /**
@@ -48,18 +130,21 @@ export class WebhookHandler {
     // Handle new issues - only respond if bot is mentioned in the issue body
     this.webhooks.on('issues.opened', async ({ payload, id }) => {
       const repoKey = payload.repository.full_name;
-      const config = this.repoConfigs.get(repoKey);
+      const baseConfig = this.repoConfigs.get(repoKey);
       const installationId = payload.installation?.id;
 
-      if (!config?.enabled || !installationId) {
+      if (!baseConfig?.enabled || !installationId) {
         console.log(`[SKIP] Repo not enabled or no installation: ${repoKey}`);
         return;
       }
 
       const issueKey = `${repoKey}#${payload.issue.number}`;
 
+      // Keep the duplicate index current for every new issue
+      this.indexIssue(repoKey, payload.issue);
+
       // Check for loop prevention
-      const loopCheck = this.loopPrevention.check(
+      const loopCheck = await this.loopPrevention.check(
         payload.issue.user?.login || '',
         issueKey,
         id
@@ -69,6 +154,21 @@ export class WebhookHandler {
         return;
       }
 
+      const client = this.createClientForInstallation(installationId);
+      const context = this.buildIssueContext(payload);
+
+      // Apply .github/frentis.yml overrides
+      const config = await this.resolveRepoConfig(baseConfig, context, client);
+      if (!config.enabled) {
+        console.log(`[SKIP] Disabled by ${REPO_CONFIG_FILE_PATH}: ${repoKey}`);
+        return;
+      }
+
+      // Optional duplicate detection runs for every new issue, mentioned or not
+      if (config.duplicateDetection?.enabled) {
+        await this.detectDuplicate(context, config, client, id);
+      }
+
       // Check for mention in issue body
       const mentionResult = this.mentionDetector.detect(payload.issue.body || '');
       if (!mentionResult.isMentioned) {
@@ -78,24 +178,85 @@ export class WebhookHandler {
 
       console.log(`[NEW ISSUE] #${payload.issue.number}: ${payload.issue.title}`);
 
-      const client = this.createClientForInstallation(installationId);
-      const context = this.buildIssueContext(payload);
-      await this.processIssue(context, config, client, id);
+      const authorized = await this.authorizeMention(
+        config,
+        context,
+        payload.issue.user?.login || '',
+        client,
+        issueKey,
+        id,
+        (body) =>
+          client.createComment(
+            context.repository.owner,
+            context.repository.name,
+            context.issue.number,
+            body
+          )
+      );
+      if (!authorized) return;
+      await this.reportRepoFileError(config, context, client);
+
+      const progress = await this.startProgress(
+        config,
+        context,
+        client,
+        { type: 'issue', issueNumber: context.issue.number },
+        id
+      );
+
+      // Slash command in the issue body (e.g. "@frentis-agent /label")
+      const command = parseCommand(
+        this.mentionDetector.extractMessageAfterMention(payload.issue.body || '')
+      );
+      if (command) {
+        const conversationContext: ConversationContext = {
+          issueNumber: payload.issue.number,
+          owner: context.repository.owner,
+          repo: context.repository.name,
+          comments: [],
+        };
+        await this.processCommand(
+          command,
+          context,
+          conversationContext,
+          config,
+          client,
+          id,
+          progress,
+          payload.issue.user?.login || ''
+        );
+        return;
+      }
+
+      await this.processIssue(context, config, client, id, progress);
+    });
+
+    // Keep the duplicate index in sync with issue changes
+    this.webhooks.on(
+      ['issues.edited', 'issues.closed', 'issues.reopened'],
+      async ({ payload }) => {
+        if (!this.repoConfigs.get(payload.repository.full_name)?.enabled) return;
+        this.indexIssue(payload.repository.full_name, payload.issue);
+      }
+    );
+
+    this.webhooks.on(['issues.deleted', 'issues.transferred'], async ({ payload }) => {
+      this.issueIndex?.remove(payload.repository.full_name, payload.issue.number);
     });
 
     // Handle issue comments (for @bot mentions)
     this.webhooks.on('issue_comment.created', async ({ payload, id }) => {
       const repoKey = payload.repository.full_name;
-      const config = this.repoConfigs.get(repoKey);
+      const baseConfig = this.repoConfigs.get(repoKey);
       const installationId = payload.installation?.id;
 
-      if (!config?.enabled || !installationId) return;
+      if (!baseConfig?.enabled || !installationId) return;
 
       const issueKey = `${repoKey}#${payload.issue.number}`;
       const commentAuthor = payload.comment.user?.login || '';
 
       // Check for loop prevention
-      const loopCheck = this.loopPrevention.check(commentAuthor, issueKey, id);
+      const loopCheck = await this.loopPrevention.check(commentAuthor, issueKey, id);
       if (loopCheck.shouldIgnore) {
         console.log(`[SKIP] Loop prevention: ${loopCheck.reason}`);
         return;
@@ -104,6 +265,7 @@ export class WebhookHandler {
       // Check for mention in comment body
       const body = payload.comment.body || '';
       const mentionResult = this.mentionDetector.detect(body);
+      this.recordReplyFeedback(repoKey, payload.issue.number, commentAuthor, body, mentionResult.isMentioned);
 
       if (!mentionResult.isMentioned) {
         console.log(`[SKIP] No mention in comment on #${payload.issue.number}`);
@@ -115,6 +277,39 @@ export class WebhookHandler {
       const client = this.createClientForInstallation(installationId);
       const context = this.buildIssueContext(payload);
 
+      // Apply .github/frentis.yml overrides
+      const config = await this.resolveRepoConfig(baseConfig, context, client);
+      if (!config.enabled) {
+        console.log(`[SKIP] Disabled by ${REPO_CONFIG_FILE_PATH}: ${repoKey}`);
+        return;
+      }
+
+      const authorized = await this.authorizeMention(
+        config,
+        context,
+        commentAuthor,
+        client,
+        issueKey,
+        id,
+        (body) =>
+          client.createComment(
+            context.repository.owner,
+            context.repository.name,
+            context.issue.number,
+            body
+          )
+      );
+      if (!authorized) return;
+      await this.reportRepoFileError(config, context, client);
+
+      const progress = await this.startProgress(
+        config,
+        context,
+        client,
+        { type: 'comment', commentId: payload.comment.id },
+        id
+      );
+
       // Collect conversation context
       const conversationContext = await this.collectConversationContext(
         client,
@@ -123,14 +318,457 @@ export class WebhookHandler {
         payload.issue.number
       );
 
+      const message = this.mentionDetector.extractMessageAfterMention(body);
+
+      // Comments on pull requests get PR summaries / reviews
+      if (payload.issue.pull_request) {
+        const prContext = await new PullRequestCollector(client).collect(
+          context.repository,
+          payload.issue.number
+        );
+        await this.processPullRequestMention(
+          message,
+          prContext,
+          conversationContext,
+          config,
+          client,
+          id,
+          progress,
+          commentAuthor
+        );
+        return;
+      }
+
+      // Slash command after the mention, otherwise free-form Q&A
+      const command = parseCommand(message);
+      if (command) {
+        await this.processCommand(
+          command,
+          context,
+          conversationContext,
+          config,
+          client,
+          id,
+          progress,
+          commentAuthor
+        );
+        return;
+      }
+
       await this.processIssueWithConversation(
         context,
         conversationContext,
         config,
         client,
-        id
+        id,
+        progress
+      );
+    });
+  }
+
+  /**
+   * Handle pull request events: review on mention, optional auto summary / review
+   */
+  private setupPullRequestHandlers() {
+    this.webhooks.on(
+      ['pull_request.opened', 'pull_request.synchronize'],
+      async ({ payload, id }) => {
+        const repoKey = payload.repository.full_name;
+        const baseConfig = this.repoConfigs.get(repoKey);
+        const installationId = payload.installation?.id;
+
+        if (!baseConfig?.enabled || !installationId) {
+          console.log(`[SKIP] Repo not enabled or no installation: ${repoKey}`);
+          return;
+        }
+
+        const pr = payload.pull_request;
+        const prKey = `${repoKey}#${pr.number}`;
+
+        const loopCheck = await this.loopPrevention.check(payload.sender.login, prKey, id);
+        if (loopCheck.shouldIgnore) {
+          console.log(`[SKIP] Loop prevention: ${loopCheck.reason}`);
+          return;
+        }
+
+        const client = this.createClientForInstallation(installationId);
+        const repository = this.buildRepositoryContext(payload.repository);
+
+        const config = await this.resolveRepoConfig(
+          baseConfig,
+          { issue: this.buildPullRequestIssue(pr), repository },
+          client
+        );
+        if (!config.enabled) {
+          console.log(`[SKIP] Disabled by ${REPO_CONFIG_FILE_PATH}: ${repoKey}`);
+          return;
+        }
+
+        // A mention in the description only triggers once, when the PR is opened
+        let mentioned =
+          payload.action === 'opened' && this.mentionDetector.detect(pr.body || '').isMentioned;
+        if (mentioned) {
+          // Automatic summaries / reviews below aren't user-triggered, so they still run
+          mentioned = await this.authorizeMention(
+            config,
+            { issue: this.buildPullRequestIssue(pr), repository },
+            pr.user?.login || '',
+            client,
+            prKey,
+            id,
+            (body) => client.createComment(repository.owner, repository.name, pr.number, body)
+          );
+        }
+        const autoReview = config.pullRequests?.autoReview && !pr.draft;
+        const autoSummary = payload.action === 'opened' && config.pullRequests?.autoSummary;
+
+        if (!mentioned && !autoReview && !autoSummary) {
+          console.log(`[SKIP] Nothing to do for PR #${pr.number} (${payload.action})`);
+          return;
+        }
+
+        console.log(`[PULL REQUEST] #${pr.number} ${payload.action}: ${pr.title}`);
+        await this.reportRepoFileError(config, { issue: this.buildPullRequestIssue(pr), repository }, client);
+
+        const context = await new PullRequestCollector(client).collect(repository, pr.number);
+
+        if (mentioned) {
+          const progress = await this.startProgress(
+            config,
+            context,
+            client,
+            { type: 'issue', issueNumber: pr.number },
+            id
+          );
+          await this.processPullRequestMention(
+            this.mentionDetector.extractMessageAfterMention(pr.body || ''),
+            context,
+            { issueNumber: pr.number, owner: repository.owner, repo: repository.name, comments: [] },
+            config,
+            client,
+            id,
+            progress,
+            pr.user?.login || ''
+          );
+        } else if (autoReview) {
+          // The review body already summarizes the changes
+          await this.processPullRequestReview(context, config, client, id);
+        } else {
+          await this.processPullRequestSummary(context, config, client, id);
+        }
+      }
+    );
+  }
+
+  /**
+   * Handle mentions in inline review comments: answer in the same thread
+   */
+  private setupReviewCommentHandlers() {
+    this.webhooks.on('pull_request_review_comment.created', async ({ payload, id }) => {
+      const repoKey = payload.repository.full_name;
+      const baseConfig = this.repoConfigs.get(repoKey);
+      const installationId = payload.installation?.id;
+
+      if (!baseConfig?.enabled || !installationId) return;
+
+      const comment = payload.comment;
+      const pr = payload.pull_request;
+      // Replies point at the thread's root comment; a root comment is its own thread
+      const rootCommentId = comment.in_reply_to_id ?? comment.id;
+      const threadKey = reviewThreadKey(`${repoKey}#${pr.number}`, rootCommentId);
+      const commentAuthor = comment.user?.login || '';
+
+      const loopCheck = await this.loopPrevention.check(commentAuthor, threadKey, id);
+      if (loopCheck.shouldIgnore) {
+        console.log(`[SKIP] Loop prevention: ${loopCheck.reason}`);
+        return;
+      }
+
+      if (!this.mentionDetector.detect(comment.body).isMentioned) {
+        console.log(`[SKIP] No mention in review comment on #${pr.number}`);
+        return;
+      }
+
+      console.log(`[MENTION] Review thread ${rootCommentId} on #${pr.number} by @${commentAuthor}`);
+
+      const client = this.createClientForInstallation(installationId);
+      const context: IssueContext = {
+        issue: this.buildPullRequestIssue(pr),
+        repository: this.buildRepositoryContext(payload.repository),
+      };
+
+      const config = await this.resolveRepoConfig(baseConfig, context, client);
+      if (!config.enabled) {
+        console.log(`[SKIP] Disabled by ${REPO_CONFIG_FILE_PATH}: ${repoKey}`);
+        return;
+      }
+
+      const authorized = await this.authorizeMention(
+        config,
+        context,
+        commentAuthor,
+        client,
+        threadKey,
+        id,
+        (body) =>
+          client.replyToReviewComment(
+            context.repository.owner,
+            context.repository.name,
+            pr.number,
+            rootCommentId,
+            body
+          )
+      );
+      if (!authorized) return;
+      await this.reportRepoFileError(config, context, client);
+
+      const thread: ReviewThreadContext = {
+        path: comment.path,
+        diffHunk: comment.diff_hunk,
+        startLine: comment.start_line ?? null,
+        line: comment.line ?? null,
+        side: comment.side === 'LEFT' ? 'LEFT' : 'RIGHT',
+        comments: await client.getReviewThreadComments(
+          context.repository.owner,
+          context.repository.name,
+          pr.number,
+          rootCommentId
+        ),
+      };
+
+      const progress = await this.startProgress(
+        config,
+        context,
+        client,
+        { type: 'review-comment', commentId: comment.id },
+        id,
+        (body) =>
+          client.replyToReviewComment(
+            context.repository.owner,
+            context.repository.name,
+            pr.number,
+            rootCommentId,
+            body
+          )
       );
+
+      await this.processReviewThread(context, thread, threadKey, config, client, id, progress);
+    });
+  }
+
+  /**
+   * Handle mentions in GitHub Discussions (new discussions and comments)
+   */
+  private setupDiscussionHandlers() {
+    this.webhooks.on(
+      ['discussion.created', 'discussion_comment.created'],
+      async ({ payload, id }) => {
+        const repoKey = payload.repository.full_name;
+        const baseConfig = this.repoConfigs.get(repoKey);
+        const installationId = payload.installation?.id;
+
+        if (!baseConfig?.enabled || !installationId) return;
+
+        const discussion = payload.discussion;
+        const comment = 'comment' in payload ? payload.comment : undefined;
+        const author = (comment ?? discussion).user?.login || '';
+        const body = (comment ?? discussion).body || '';
+        const loopKey = discussionKey(repoKey, discussion.number);
+
+        const loopCheck = await this.loopPrevention.check(author, loopKey, id);
+        if (loopCheck.shouldIgnore) {
+          console.log(`[SKIP] Loop prevention: ${loopCheck.reason}`);
+          return;
+        }
+
+        if (!this.mentionDetector.detect(body).isMentioned) {
+          console.log(`[SKIP] No mention in discussion #${discussion.number}`);
+          return;
+        }
+
+        console.log(`[MENTION] Discussion #${discussion.number} by @${author}`);
+
+        const client = this.createClientForInstallation(installationId);
+        const context: IssueContext = {
+          issue: {
+            number: discussion.number,
+            title: discussion.title,
+            body: discussion.body,
+            user: discussion.user?.login || 'unknown',
+            labels: [],
+            created_at: discussion.created_at,
+            html_url: discussion.html_url,
+          },
+          repository: this.buildRepositoryContext(payload.repository),
+        };
+
+        // Config errors are reported on issues only; discussion numbers aren't issue numbers
+        const config = await this.resolveRepoConfig(baseConfig, context, client);
+        if (!config.enabled) {
+          console.log(`[SKIP] Disabled by ${REPO_CONFIG_FILE_PATH}: ${repoKey}`);
+          return;
+        }
+
+        const conversation: DiscussionConversationContext = {
+          discussionNumber: discussion.number,
+          discussionId: discussion.node_id,
+          owner: context.repository.owner,
+          repo: context.repository.name,
+          category: {
+            name: discussion.category.name,
+            isAnswerable: discussion.category.is_answerable,
+          },
+          hasAnswer: Boolean(discussion.answer_html_url),
+          comments: comment
+            ? await client.getDiscussionComments(
+                context.repository.owner,
+                context.repository.name,
+                discussion.number
+              )
+            : [],
+        };
+
+        // Discussions nest one level: replies go under the top-level comment
+        const replyToId = comment
+          ? (comment.parent_id
+              ? conversation.comments.find((c) => c.id === comment.parent_id)?.nodeId
+              : comment.node_id)
+          : undefined;
+
+        const authorized = await this.authorizeMention(
+          config,
+          context,
+          author,
+          client,
+          loopKey,
+          id,
+          (reply) => client.addDiscussionComment(conversation.discussionId, reply, replyToId)
+        );
+        if (!authorized) return;
+
+        const progress = await this.startProgress(
+          config,
+          context,
+          client,
+          { type: 'discussion', nodeId: (comment ?? discussion).node_id },
+          id,
+          (reply) => client.addDiscussionComment(conversation.discussionId, reply, replyToId)
+        );
+
+        await this.processDiscussion(context, conversation, loopKey, config, client, id, progress);
+      }
+    );
+  }
+
+  /**
+   * Check the repo's trigger policy before running anything for a mention
+   * Denied users get a polite refusal (once per event) unless the policy says to ignore them
+   */
+  private async authorizeMention(
+    config: RepoConfig,
+    context: IssueContext,
+    username: string,
+    client: OctokitClient,
+    loopKey: string,
+    eventId: string,
+    reply: (body: string) => Promise<unknown>
+  ): Promise<boolean> {
+    const policy = config.triggerPolicy ?? DEFAULT_TRIGGER_POLICY;
+    const decision = await this.triggerAuthorizer.authorize(
+      policy,
+      context.repository,
+      username,
+      client
+    );
+    if (decision.allowed) return true;
+
+    console.log(`[SKIP] @${username} not allowed to trigger on ${loopKey}: ${decision.reason}`);
+    if (policy.onDenied !== 'ignore') {
+      await reply(deniedMessage(policy, username, responseTextFor(config.prompt, context)));
+      await this.loopPrevention.recordResponse(loopKey, eventId);
+    }
+    await this.loopPrevention.markProcessed(eventId);
+    return false;
+  }
+
+  /**
+   * Register / unregister repos as the app is installed, uninstalled or its repo access changes
+   */
+  private setupInstallationHandlers() {
+    this.webhooks.on(['installation.created', 'installation.deleted'], async ({ payload }) => {
+      if (!this.registration?.autoRegister) return;
+
+      const repos = this.toInstalledRepositories(payload.repositories ?? [], payload.installation.id);
+      if (payload.action === 'created') {
+        await this.registerRepos(repos);
+      } else {
+        await this.unregisterRepos(repos);
+      }
     });
+
+    this.webhooks.on(
+      ['installation_repositories.added', 'installation_repositories.removed'],
+      async ({ payload }) => {
+        if (!this.registration?.autoRegister) return;
+
+        const installationId = payload.installation.id;
+        await this.registerRepos(
+          this.toInstalledRepositories(payload.repositories_added, installationId)
+        );
+        await this.unregisterRepos(
+          this.toInstalledRepositories(payload.repositories_removed, installationId)
+        );
+      }
+    );
+  }
+
+  private toInstalledRepositories(
+    repositories: Array<{ full_name?: string }>,
+    installationId: number
+  ): InstalledRepository[] {
+    return repositories
+      .filter((r): r is { full_name: string } => Boolean(r.full_name))
+      .map((r) => {
+        const [owner = '', name = ''] = r.full_name.split('/');
+        return { owner, name, installationId };
+      });
+  }
+
+  /**
+   * Add repos that aren't registered yet, using the default profile
+   */
+  private async registerRepos(repos: InstalledRepository[]) {
+    const added = repos.filter((r) => !this.repoConfigs.has(`${r.owner}/${r.name}`));
+    if (added.length === 0 || !this.registration) return;
+
+    for (const repo of added) {
+      const result = await this.registry.create({
+        ...this.registration.defaultProfile,
+        owner: repo.owner,
+        name: repo.name,
+        autoRegistered: true,
+      });
+      if (result.success) {
+        console.log(`[REGISTER] ${repo.owner}/${repo.name} (installation ${repo.installationId})`);
+      } else {
+        console.warn(`[REGISTER] Skipped ${repo.owner}/${repo.name}: ${result.error}`);
+      }
+    }
+  }
+
+  /**
+   * Remove auto-registered repos; manually registered ones are kept
+   */
+  private async unregisterRepos(repos: InstalledRepository[]) {
+    const removed = repos.filter(
+      (r) => this.repoConfigs.get(`${r.owner}/${r.name}`)?.autoRegistered
+    );
+    if (removed.length === 0) return;
+
+    for (const repo of removed) {
+      await this.registry.remove(repo.owner, repo.name);
+      console.log(`[UNREGISTER] ${repo.owner}/${repo.name}`);
+    }
   }
 
   private buildIssueContext(payload: {
@@ -161,16 +799,185 @@ export class WebhookHandler {
         created_at: payload.issue.created_at,
         html_url: payload.issue.html_url,
       },
-      repository: {
-        owner: payload.repository.owner.login,
-        name: payload.repository.name,
-        full_name: payload.repository.full_name,
-        default_branch: payload.repository.default_branch,
-        clone_url: payload.repository.clone_url,
-      },
+      repository: this.buildRepositoryContext(payload.repository),
     };
   }
 
+  private buildRepositoryContext(repository: {
+    owner: { login: string };
+    name: string;
+    full_name: string;
+    default_branch: string;
+    clone_url: string;
+  }): IssueContext['repository'] {
+    return {
+      owner: repository.owner.login,
+      name: repository.name,
+      full_name: repository.full_name,
+      default_branch: repository.default_branch,
+      clone_url: repository.clone_url,
+    };
+  }
+
+  private buildPullRequestIssue(pr: {
+    number: number;
+    title: string;
+    body: string | null;
+    user: { login: string } | null;
+    labels: Array<{ name: string }>;
+    created_at: string;
+    html_url: string;
+  }): IssueContext['issue'] {
+    return {
+      number: pr.number,
+      title: pr.title,
+      body: pr.body,
+      user: pr.user?.login || 'unknown',
+      labels: pr.labels.map((l) => l.name),
+      created_at: pr.created_at,
+      html_url: pr.html_url,
+    };
+  }
+
+  /**
+   * Resolve the effective repo config (RepoConfig + .github/frentis.yml)
+   */
+  private async resolveRepoConfig(
+    base: RepoConfig,
+    context: IssueContext,
+    client: OctokitClient
+  ): Promise<RepoConfig> {
+    const result = await this.repoFileLoader.resolve(
+      base,
+      context.repository.default_branch,
+      client
+    );
+    return result.config;
+  }
+
+  /**
+   * Report an invalid .github/frentis.yml once per commit on the issue / PR the bot is acting on
+   * Called only after the mention and authorization checks, so unrelated issues aren't commented on
+   */
+  private async reportRepoFileError(
+    config: RepoConfig,
+    context: IssueContext,
+    client: OctokitClient
+  ): Promise<void> {
+    const report = this.repoFileLoader.claimErrorReport(context.repository.full_name);
+    if (!report) return;
+
+    try {
+      await client.createComment(
+        context.repository.owner,
+        context.repository.name,
+        context.issue.number,
+        responseTextFor(config.prompt, context).configError(
+          REPO_CONFIG_FILE_PATH,
+          report.sha.slice(0, 7),
+          report.error
+        )
+      );
+    } catch (error) {
+      console.error(`[ERROR] Failed to report invalid ${REPO_CONFIG_FILE_PATH}:`, error);
+    }
+  }
+
+  private indexIssue(
+    repoKey: string,
+    issue: { number: number; title: string; body?: string | null; state?: string }
+  ) {
+    this.issueIndex?.upsert(repoKey, {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body ?? null,
+      state: issue.state === 'closed' ? 'closed' : 'open',
+    });
+  }
+
+  /**
+   * Label a new issue as a likely duplicate and link the original
+   * Failures are logged only; duplicate detection never blocks the main flow
+   */
+  private async detectDuplicate(
+    context: IssueContext,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string
+  ) {
+    const settings = config.duplicateDetection;
+    if (!settings || !this.issueIndex) return;
+
+    const { owner, name, full_name } = context.repository;
+    const issueKey = `${full_name}#${context.issue.number}`;
+    let run: AnalysisRun | undefined;
+
+    try {
+      if (await this.loopPrevention.hasDuplicateNotice(issueKey)) return;
+
+      await this.issueIndex.ensureBackfilled(owner, name, client);
+
+      // The original must be older than the new issue
+      const original = this.issueIndex
+        .search(full_name, context.issue, {
+          limit: 5,
+          excludeNumber: context.issue.number,
+          minSimilarity: settings.threshold,
+        })
+        .find((r) => r.number < context.issue.number);
+      if (!original) return;
+
+      console.log(
+        `[DUPLICATE] #${context.issue.number} looks like #${original.number} (${original.similarity})`
+      );
+
+      // Only a detected duplicate is recorded; the check itself isn't an analysis run
+      run = this.startRun('duplicate', context, config, eventId);
+
+      await client.addLabels(owner, name, context.issue.number, [settings.label]);
+      run?.labels([settings.label]);
+
+      const notice = responseTextFor(config.prompt, context).duplicate(
+        original.number,
+        original.title,
+        Math.round(original.similarity * 100)
+      );
+      const comment = await client.createComment(owner, name, context.issue.number, notice);
+      run?.posted('comment', comment.id, notice);
+
+      await this.loopPrevention.recordDuplicateNotice(issueKey);
+      run?.succeed();
+    } catch (error) {
+      console.error(`[ERROR] Duplicate detection failed for #${context.issue.number}:`, error);
+      run?.fail(error);
+    }
+  }
+
+  /**
+   * Count a reply as feedback on the issue's latest analysis comment when it reads like one
+   * ("this is wrong", "thanks, that worked") and is addressed to the bot: it mentions the bot
+   * or comes shortly after the analysis comment
+   */
+  private recordReplyFeedback(
+    repoKey: string,
+    issueNumber: number,
+    author: string,
+    body: string,
+    mentioned: boolean
+  ): void {
+    if (!this.feedback) return;
+
+    const signal = replySignal(body);
+    if (!signal) return;
+
+    const tracked = this.feedback.latestComment(repoKey, issueNumber);
+    if (!tracked) return;
+    if (!mentioned && Date.now() - tracked.createdAt > REPLY_FEEDBACK_WINDOW_MS) return;
+
+    this.feedback.recordReply(tracked.commentId, author, signal);
+    console.log(`[FEEDBACK] ${signal} reply by @${author} on comment ${tracked.commentId}`);
+  }
+
   /**
    * Collect conversation context from issue comments
    */
@@ -180,7 +987,9 @@ export class WebhookHandler {
     repo: string,
     issueNumber: number
   ): Promise<ConversationContext> {
-    const comments = await client.getIssueComments(owner, repo, issueNumber);
+    const comments = (await client.getIssueComments(owner, repo, issueNumber)).filter(
+      (c) => !isPlaceholderComment(c.body)
+    );
 
     // Find last bot comment
     const botComments = comments.filter((c) => client.isBotUser(c.author));
@@ -195,6 +1004,49 @@ export class WebhookHandler {
     };
   }
 
+  /**
+   * Post an issue analysis: a new comment, or the edited sticky comment when enabled
+   */
+  private async postTriageResponse(
+    context: IssueContext,
+    config: RepoConfig,
+    client: OctokitClient,
+    progress: ProgressReporter,
+    response: string,
+    triage: TriageResult,
+    comments?: CommentInfo[]
+  ): Promise<{ id: number; sticky: boolean }> {
+    let commentId: number;
+    if (config.stickyComment?.enabled) {
+      const { id, updated } = await upsertStickyComment(
+        client,
+        context,
+        response,
+        config.stickyComment,
+        responseTextFor(config.prompt, context),
+        comments
+      );
+      console.log(`[RESPONDED] Sticky comment ${updated ? 'updated' : 'posted'} (ID: ${id})`);
+      commentId = id;
+    } else {
+      const result = await progress.reply(response);
+      console.log(`[RESPONDED] Comment posted (ID: ${result.id})`);
+      commentId = result.id;
+    }
+
+    // Reactions and replies on this comment are matched back to the analysis
+    this.feedback?.trackComment({
+      commentId,
+      repo: context.repository.full_name,
+      issueNumber: context.issue.number,
+      installationId: client.getInstallationId(),
+      analysis: triage.analysis,
+      labels: triage.labels,
+    });
+
+    return { id: commentId, sticky: Boolean(config.stickyComment?.enabled) };
+  }
+
   /**
    * Process issue (new issue with mention)
    */
@@ -202,54 +1054,178 @@ export class WebhookHandler {
     context: IssueContext,
     config: RepoConfig,
     client: OctokitClient,
-    eventId: string
+    eventId: string,
+    progress: ProgressReporter
   ) {
+    const run = this.startRun('issue', context, config, eventId);
     try {
       console.log(`[ANALYZING] Issue #${context.issue.number}...`);
 
-      // Mark event as processed
-      this.loopPrevention.markProcessed(eventId);
+      const policy = config.confidencePolicy ?? DEFAULT_CONFIDENCE_POLICY;
+
+      // Related issues / recent PRs via the installation client
+      const collectedContext = await new ContextCollector(client, this.issueIndex).collect(context);
+
+      // Suggestions are restricted to labels that exist in the repo
+      const repoLabels = await this.labelManager.repoLabels(config, client);
 
       // Analyze with Claude
-      const analysis = await this.claudeAgent.analyzeIssue(
-        context,
-        config.localPath
+      const analysis = await this.workspaces.withCheckout(config, context.repository, client, (repoPath) =>
+        this.claudeAgent.analyzeIssue(context, repoPath, {
+          samples: policy.samples,
+          collectedContext,
+          prompt: config.prompt,
+          allowedLabels: repoLabels.allowed,
+          examples: labelExamples(this.feedback, config),
+        })
       );
 
       console.log(
-        `[RESULT] Type: ${analysis.classification.type}, Priority: ${analysis.classification.priority}`
+        `[RESULT] Type: ${analysis.classification.type}, Priority: ${analysis.classification.priority}, Confidence: ${analysis.confidence}`
       );
+      run?.analysis(analysis);
+
+      if (analysis.classificationValidation.status === 'failed') {
+        console.warn(
+          `[CLASSIFY FAILED] #${context.issue.number}: labels skipped`,
+          analysis.classificationValidation.errors
+        );
+      }
+
+      const { labels } = this.labelManager.resolve(
+        config,
+        repoLabels,
+        analysis.classification,
+        analysis.labels
+      );
+
+      // Confidence-gated actions: apply labels / suggest them / stay silent
+      const decision = applyConfidencePolicy(
+        { ...analysis, labels },
+        policy,
+        responseTextFor(config.prompt, context)
+      );
+      console.log(`[CONFIDENCE] ${analysis.confidence} -> ${decision.band}`);
 
       // Add labels if enabled
-      if (config.autoLabel && analysis.labels.length > 0) {
+      if (config.autoLabel && decision.labels.length > 0) {
         await client.addLabels(
           context.repository.owner,
           context.repository.name,
           context.issue.number,
-          analysis.labels
+          decision.labels
         );
-        console.log(`[LABELED] ${analysis.labels.join(', ')}`);
+        console.log(`[LABELED] ${decision.labels.join(', ')}`);
+        run?.labels(decision.labels);
       }
 
       // Post response if enabled
-      if (config.autoRespond) {
-        const result = await client.createComment(
+      if (config.autoRespond && decision.response) {
+        const posted = await this.postTriageResponse(context, config, client, progress, decision.response, {
+          analysis,
+          labels: decision.labels,
+        });
+        run?.posted(posted.sticky ? 'sticky-comment' : 'comment', posted.id, decision.response);
+
+        // Record response for loop prevention
+        const issueKey = `${context.repository.full_name}#${context.issue.number}`;
+        await this.loopPrevention.recordResponse(issueKey, eventId);
+      }
+
+      // Mark event as processed (only on success so queue retries aren't skipped)
+      await this.loopPrevention.markProcessed(eventId);
+      await progress.succeed();
+      run?.succeed();
+    } catch (error) {
+      console.error(
+        `[ERROR] Failed to process issue #${context.issue.number}:`,
+        error
+      );
+      run?.fail(error);
+      await progress.fail(this.isFinalAttempt(eventId));
+      throw error;
+    }
+  }
+
+  /**
+   * Process a slash command (e.g. "@frentis-agent /summarize")
+   */
+  private async processCommand(
+    command: ParsedCommand,
+    context: IssueContext,
+    conversationContext: ConversationContext,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string,
+    progress: ProgressReporter,
+    sender: string
+  ) {
+    const run = this.startRun('command', context, config, eventId, {
+      command: command.name,
+      request: command.rawArgs,
+    });
+    try {
+      console.log(`[COMMAND] /${command.name} on #${context.issue.number}`);
+
+      const result = await this.commandDispatcher.dispatch(command, {
+        issue: context,
+        conversation: conversationContext,
+        sender,
+        eventId,
+        config,
+        client,
+        agent: this.claudeAgent,
+        labelManager: this.labelManager,
+        autoFix: this.autoFix,
+        workspaces: this.workspaces,
+        loopPrevention: this.loopPrevention,
+        issueIndex: this.issueIndex,
+        feedback: this.feedback,
+      });
+
+      if (result.labels && result.labels.length > 0) {
+        await client.addLabels(
           context.repository.owner,
           context.repository.name,
           context.issue.number,
-          analysis.response
+          result.labels
         );
-        console.log(`[RESPONDED] Comment posted (ID: ${result.id})`);
+        console.log(`[LABELED] ${result.labels.join(', ')}`);
+        run?.labels(result.labels);
+      }
 
-        // Record response for loop prevention
-        const issueKey = `${context.repository.full_name}#${context.issue.number}`;
-        this.loopPrevention.recordResponse(issueKey, eventId);
+      // Commands are explicit requests, always respond
+      if (result.triage) {
+        run?.analysis(result.triage.analysis);
+        const posted = await this.postTriageResponse(
+          context,
+          config,
+          client,
+          progress,
+          result.response,
+          result.triage,
+          conversationContext.comments
+        );
+        run?.posted(posted.sticky ? 'sticky-comment' : 'comment', posted.id, result.response);
+      } else {
+        const comment = await progress.reply(result.response);
+        console.log(`[RESPONDED] Comment posted (ID: ${comment.id})`);
+        run?.posted('comment', comment.id, result.response);
       }
+
+      const issueKey = `${context.repository.full_name}#${context.issue.number}`;
+      await this.loopPrevention.recordResponse(issueKey, eventId);
+      await this.loopPrevention.markProcessed(eventId);
+      await progress.succeed();
+      run?.succeed();
     } catch (error) {
       console.error(
-        `[ERROR] Failed to process issue #${context.issue.number}:`,
+        `[ERROR] Failed to run /${command.name} on #${context.issue.number}:`,
         error
       );
+      run?.fail(error);
+      await progress.fail(this.isFinalAttempt(eventId));
+      throw error;
     }
   }
 
@@ -261,59 +1237,298 @@ export class WebhookHandler {
     conversationContext: ConversationContext,
     config: RepoConfig,
     client: OctokitClient,
-    eventId: string
+    eventId: string,
+    progress: ProgressReporter
   ) {
+    const run = this.startRun('conversation', context, config, eventId);
     try {
       console.log(
         `[ANALYZING] Issue #${context.issue.number} with ${conversationContext.comments.length} comments...`
       );
 
-      // Mark event as processed
-      this.loopPrevention.markProcessed(eventId);
-
       // Build conversation history for Claude
       const conversationHistory = conversationContext.comments
         .map((c) => `@${c.author}: ${c.body}`)
         .join('\n\n---\n\n');
 
+      // Related issues / recent PRs via the installation client
+      const collectedContext = await new ContextCollector(client, this.issueIndex).collect(context);
+
       // Analyze with conversation context
-      const analysis = await this.claudeAgent.analyzeIssue(
-        {
-          ...context,
-          issue: {
-            ...context.issue,
-            body: `${context.issue.body || ''}\n\n## Conversation History\n\n${conversationHistory}`,
+      const analysis = await this.workspaces.withCheckout(config, context.repository, client, (repoPath) =>
+        this.claudeAgent.analyzeIssue(
+          {
+            ...context,
+            issue: {
+              ...context.issue,
+              body: `${context.issue.body || ''}\n\n## Conversation History\n\n${conversationHistory}`,
+            },
           },
-        },
-        config.localPath
+          repoPath,
+          { collectedContext, prompt: config.prompt, examples: labelExamples(this.feedback, config) }
+        )
       );
 
       console.log(
         `[RESULT] Type: ${analysis.classification.type}, Priority: ${analysis.classification.priority}`
       );
+      run?.analysis(analysis);
 
       // Post response (always respond to mentions)
-      const result = await client.createComment(
-        context.repository.owner,
-        context.repository.name,
-        context.issue.number,
-        analysis.response
+      const posted = await this.postTriageResponse(
+        context,
+        config,
+        client,
+        progress,
+        analysis.response,
+        { analysis, labels: analysis.labels },
+        conversationContext.comments
       );
-      console.log(`[RESPONDED] Comment posted (ID: ${result.id})`);
+      run?.posted(posted.sticky ? 'sticky-comment' : 'comment', posted.id, analysis.response);
 
       // Record response for loop prevention
       const issueKey = `${context.repository.full_name}#${context.issue.number}`;
-      this.loopPrevention.recordResponse(issueKey, eventId);
+      await this.loopPrevention.recordResponse(issueKey, eventId);
+
+      // Mark event as processed (only on success so queue retries aren't skipped)
+      await this.loopPrevention.markProcessed(eventId);
+      await progress.succeed();
+      run?.succeed();
     } catch (error) {
       console.error(
         `[ERROR] Failed to process issue #${context.issue.number}:`,
         error
       );
+      run?.fail(error);
+      await progress.fail(this.isFinalAttempt(eventId));
+      throw error;
+    }
+  }
+
+  /**
+   * Route a mention on a pull request: /summarize, /review (default) or other commands
+   */
+  private async processPullRequestMention(
+    message: string | null,
+    context: PullRequestContext,
+    conversationContext: ConversationContext,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string,
+    progress: ProgressReporter,
+    sender: string
+  ) {
+    const command = parseCommand(message);
+
+    if (command?.name === 'summarize') {
+      await this.processPullRequestSummary(context, config, client, eventId, progress);
+    } else if (!command || command.name === 'review') {
+      // Free-form text after the mention tells the reviewer what to focus on
+      const instructions = command ? command.rawArgs : message ?? undefined;
+      await this.processPullRequestReview(context, config, client, eventId, instructions, progress);
+    } else {
+      await this.processCommand(
+        command,
+        context,
+        conversationContext,
+        config,
+        client,
+        eventId,
+        progress,
+        sender
+      );
     }
   }
 
   /**
-   * Verify and handle incoming webhook
+   * Post a PR summary as a comment
+   */
+  private async processPullRequestSummary(
+    context: PullRequestContext,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string,
+    progress?: ProgressReporter
+  ) {
+    const run = this.startRun('pr-summary', context, config, eventId);
+    try {
+      console.log(`[SUMMARIZING] PR #${context.issue.number}...`);
+
+      const summary = await this.claudeAgent.summarizePullRequest(context, config.prompt);
+      const result = progress
+        ? await progress.reply(summary)
+        : await client.createComment(
+            context.repository.owner,
+            context.repository.name,
+            context.issue.number,
+            summary
+          );
+      console.log(`[RESPONDED] Comment posted (ID: ${result.id})`);
+      run?.posted('comment', result.id, summary);
+
+      const prKey = `${context.repository.full_name}#${context.issue.number}`;
+      await this.loopPrevention.recordResponse(prKey, eventId);
+      await this.loopPrevention.markProcessed(eventId);
+      await progress?.succeed();
+      run?.succeed();
+    } catch (error) {
+      console.error(`[ERROR] Failed to summarize PR #${context.issue.number}:`, error);
+      run?.fail(error);
+      await progress?.fail(this.isFinalAttempt(eventId));
+      throw error;
+    }
+  }
+
+  /**
+   * Review a PR and post it as a review with inline comments on the head commit
+   */
+  private async processPullRequestReview(
+    context: PullRequestContext,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string,
+    instructions?: string,
+    progress?: ProgressReporter
+  ) {
+    const run = this.startRun('pr-review', context, config, eventId, { request: instructions });
+    try {
+      console.log(
+        `[REVIEWING] PR #${context.issue.number} (${context.files.length} files)...`
+      );
+
+      const review = await this.claudeAgent.reviewPullRequest(context, {
+        prompt: config.prompt,
+        instructions,
+      });
+      const result = await client.createReview(
+        context.repository.owner,
+        context.repository.name,
+        context.issue.number,
+        {
+          commitId: context.pullRequest.head.sha,
+          body: review.summary,
+          comments: review.comments,
+        }
+      );
+      console.log(
+        `[REVIEWED] Review posted (ID: ${result.id}, ${review.comments.length} inline comments)`
+      );
+      run?.posted('review', result.id, review.summary);
+
+      const prKey = `${context.repository.full_name}#${context.issue.number}`;
+      await this.loopPrevention.recordResponse(prKey, eventId);
+      await this.loopPrevention.markProcessed(eventId);
+      await progress?.succeed();
+      run?.succeed();
+    } catch (error) {
+      console.error(`[ERROR] Failed to review PR #${context.issue.number}:`, error);
+      run?.fail(error);
+      await progress?.fail(this.isFinalAttempt(eventId));
+      throw error;
+    }
+  }
+
+  /**
+   * Reply in a review thread
+   */
+  private async processReviewThread(
+    context: IssueContext,
+    thread: ReviewThreadContext,
+    threadKey: string,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string,
+    progress: ProgressReporter
+  ) {
+    const run = this.startRun('review-thread', context, config, eventId);
+    try {
+      console.log(
+        `[ANALYZING] Review thread on ${thread.path} with ${thread.comments.length} comments...`
+      );
+
+      // The thread is about the PR's code, so check out its head
+      const answer = await this.workspaces.withCheckout(
+        config,
+        context.repository,
+        client,
+        (repoPath) => this.claudeAgent.answerReviewThread(context, thread, repoPath, config.prompt),
+        { pullNumber: context.issue.number }
+      );
+      const result = await progress.reply(answer);
+      console.log(`[RESPONDED] Review reply posted (ID: ${result.id})`);
+      run?.posted('review-reply', result.id, answer);
+
+      await this.loopPrevention.recordResponse(threadKey, eventId);
+      await this.loopPrevention.markProcessed(eventId);
+      await progress.succeed();
+      run?.succeed();
+    } catch (error) {
+      console.error(`[ERROR] Failed to reply in review thread ${threadKey}:`, error);
+      run?.fail(error);
+      await progress.fail(this.isFinalAttempt(eventId));
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a discussion mention, optionally pointing out an existing answer
+   */
+  private async processDiscussion(
+    context: IssueContext,
+    conversation: DiscussionConversationContext,
+    loopKey: string,
+    config: RepoConfig,
+    client: OctokitClient,
+    eventId: string,
+    progress: ProgressReporter
+  ) {
+    const run = this.startRun('discussion', context, config, eventId);
+    try {
+      console.log(
+        `[ANALYZING] Discussion #${conversation.discussionNumber} with ${conversation.comments.length} comments...`
+      );
+
+      let response = await this.workspaces.withCheckout(config, context.repository, client, (repoPath) =>
+        this.claudeAgent.answerDiscussion(context, conversation.comments, repoPath, config.prompt)
+      );
+
+      if (
+        config.discussions?.suggestAnswer &&
+        conversation.category.isAnswerable &&
+        !conversation.hasAnswer
+      ) {
+        const answerId = await this.claudeAgent.suggestDiscussionAnswer(
+          context,
+          conversation.comments
+        );
+        const answer = conversation.comments.find((c) => c.id === answerId);
+        if (answer) {
+          response += `\n\n---\n\n${responseTextFor(config.prompt, context).answerCandidate(answer.author, answer.url)}`;
+        }
+      }
+
+      const result = await progress.reply(response);
+      console.log(`[RESPONDED] Discussion comment posted (ID: ${result.id})`);
+      run?.posted('discussion-comment', result.id, response);
+
+      await this.loopPrevention.recordResponse(loopKey, eventId);
+      await this.loopPrevention.markProcessed(eventId);
+      await progress.succeed();
+      run?.succeed();
+    } catch (error) {
+      console.error(
+        `[ERROR] Failed to answer discussion #${conversation.discussionNumber}:`,
+        error
+      );
+      run?.fail(error);
+      await progress.fail(this.isFinalAttempt(eventId));
+      throw error;
+    }
+  }
+
+  /**
+   * Verify incoming webhook and enqueue it for background processing
+   * Responds immediately (202) so GitHub's delivery timeout is never hit
    */
   async handle(request: Request): Promise<Response> {
     const id = request.headers.get('x-github-delivery') || '';
@@ -322,30 +1537,131 @@ export class WebhookHandler {
     const body = await request.text();
 
     try {
-      await this.webhooks.verifyAndReceive({
-        id,
-        name: name as Parameters<typeof this.webhooks.verifyAndReceive>[0]['name'],
-        payload: body,
-        signature,
-      });
-      return new Response('OK', { status: 200 });
+      const valid = await this.webhooks.verify(body, signature);
+      if (!valid || !id || !name) {
+        console.error('[WEBHOOK ERROR] Invalid signature or missing headers');
+        return new Response('Webhook verification failed', { status: 401 });
+      }
     } catch (error) {
       console.error('[WEBHOOK ERROR]', error);
       return new Response('Webhook verification failed', { status: 401 });
     }
+
+    const queued = this.jobQueue.enqueue(id, name, body);
+    if (!queued) {
+      console.log(`[QUEUE] Duplicate delivery ignored: ${id}`);
+    }
+
+    return new Response('Accepted', { status: 202 });
   }
 
   /**
-   * Add or update a repo configuration
+   * Process a queued webhook job (called by the worker pool)
+   * Throws if any event handler fails so the job can be retried
    */
-  addRepo(config: RepoConfig) {
-    this.repoConfigs.set(`${config.owner}/${config.name}`, config);
+  async processJob(job: Job, finalAttempt = false): Promise<void> {
+    if (finalAttempt) this.finalAttempts.add(job.id);
+    try {
+      // Scoped so the agent and /fix can add to this job's analysis run
+      await withRunScope(() =>
+        this.webhooks.receive({
+          id: job.id,
+          name: job.name,
+          payload: JSON.parse(job.payload),
+        } as Parameters<typeof this.webhooks.receive>[0])
+      );
+    } finally {
+      this.finalAttempts.delete(job.id);
+    }
+  }
+
+  /**
+   * Whether a failure of this event's job is final, i.e. worth telling the user about
+   */
+  private isFinalAttempt(eventId: string): boolean {
+    return this.finalAttempts.has(eventId);
+  }
+
+  /**
+   * Open an audit log record for an analysis run (undefined without a history store)
+   * A logging failure is reported but never stops the run
+   */
+  private startRun(
+    kind: AnalysisKind,
+    context: IssueContext,
+    config: RepoConfig,
+    eventId: string,
+    details: { command?: string; request?: string } = {}
+  ): AnalysisRun | undefined {
+    try {
+      return this.history?.start({
+        deliveryId: eventId,
+        repo: context.repository.full_name,
+        number: context.issue.number,
+        kind,
+        prompt: config.prompt,
+        ...details,
+      });
+    } catch (error) {
+      console.error(`[HISTORY] Failed to record ${kind} run for ${eventId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Acknowledge a mention right away (👀 reaction, optional placeholder comment)
+   * `post` sends answers somewhere other than the issue's comments (review threads, discussions)
+   */
+  private async startProgress(
+    config: RepoConfig,
+    context: IssueContext,
+    client: OctokitClient,
+    subject: ReactionSubject,
+    eventId: string,
+    post?: (body: string) => Promise<{ id: number }>
+  ): Promise<ProgressReporter> {
+    const progress = new ProgressReporter(
+      client,
+      context,
+      subject,
+      { ...DEFAULT_PROGRESS, ...config.progress },
+      eventId,
+      responseTextFor(config.prompt, context),
+      post
+    );
+    await progress.start();
+    return progress;
+  }
+
+  /**
+   * Sync registered repos with the app's current installations (run at startup)
+   * Catches up on installation events missed while the server was down
+   */
+  async reconcileInstallations(): Promise<{ added: number; removed: number }> {
+    if (!this.registration?.autoRegister) return { added: 0, removed: 0 };
+
+    const installed = await listInstalledRepositories(new GitHubAppAuth(this.githubConfig));
+    const installedKeys = new Set(installed.map((r) => `${r.owner}/${r.name}`));
+
+    const missing = installed.filter((r) => !this.repoConfigs.has(`${r.owner}/${r.name}`));
+    const stale = this.registry
+      .list()
+      .filter((r) => r.autoRegistered && !installedKeys.has(`${r.owner}/${r.name}`))
+      .map((r) => ({ owner: r.owner, name: r.name, installationId: 0 }));
+
+    await this.registerRepos(missing);
+    await this.unregisterRepos(stale);
+
+    console.log(
+      `[REGISTER] Reconciled ${installed.length} installed repos: ${missing.length} added, ${stale.length} removed`
+    );
+    return { added: missing.length, removed: stale.length };
   }
 
   /**
-   * Remove a repo configuration
+   * Mirror the registry (called on load and on every registry change)
    */
-  removeRepo(owner: string, name: string) {
-    this.repoConfigs.delete(`${owner}/${name}`);
+  private syncRepoConfigs(repos: RepoConfig[]) {
+    this.repoConfigs = new Map(repos.map((r) => [`${r.owner}/${r.name}`, r]));
   }
 }
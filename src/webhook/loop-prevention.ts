@@ -3,6 +3,8 @@
  * Prevents infinite loops from bot responding to itself
  */
 
+import { MemoryLoopStore, type LoopStateStore } from './loop-store';
+
 export interface LoopCheckResult {
   shouldIgnore: boolean;
   reason?: 'bot_author' | 'recent_response' | 'duplicate_event';
@@ -14,46 +16,65 @@ interface RecentResponse {
   eventId: string;
 }
 
+const EVENT_PREFIX = 'event:';
+const RESPONSE_PREFIX = 'response:';
+const DUPLICATE_PREFIX = 'dup:';
+const FIX_PREFIX = 'fix:';
+
+/**
+ * Loop key for a discussion (discussion numbers overlap with issue numbers)
+ */
+export function discussionKey(repoKey: string, discussionNumber: number): string {
+  return `${repoKey}/discussions#${discussionNumber}`;
+}
+
+/**
+ * Loop key for a PR review comment thread, so threads on the same PR don't share a cooldown
+ */
+export function reviewThreadKey(issueKey: string, rootCommentId: number): string {
+  return `${issueKey}:thread:${rootCommentId}`;
+}
+
 export class LoopPrevention {
   private botUsername: string;
-  private recentResponses: Map<string, RecentResponse> = new Map();
-  private processedEvents: Set<string> = new Set();
+  private store: LoopStateStore;
 
   // Cooldown period: don't respond to same issue within this time (ms)
   private readonly cooldownMs: number;
-  // Max tracked responses (prevent memory leak)
-  private readonly maxTracked: number;
+  // How long processed delivery IDs are remembered (ms)
+  private readonly eventTtlMs: number;
 
   constructor(
     botUsername: string,
-    options: { cooldownMs?: number; maxTracked?: number } = {}
+    options: { cooldownMs?: number; eventTtlMs?: number; store?: LoopStateStore } = {}
   ) {
     this.botUsername = botUsername;
     this.cooldownMs = options.cooldownMs ?? 30_000; // 30 seconds default
-    this.maxTracked = options.maxTracked ?? 1000;
+    // GitHub keeps deliveries redeliverable for 3 days
+    this.eventTtlMs = options.eventTtlMs ?? 3 * 24 * 60 * 60 * 1000;
+    this.store = options.store ?? new MemoryLoopStore();
   }
 
   /**
    * Check if the event should be ignored
    */
-  check(
+  async check(
     author: string,
-    issueKey: string, // e.g., "owner/repo#123"
+    issueKey: string, // e.g., "owner/repo#123" or a reviewThreadKey()
     eventId: string
-  ): LoopCheckResult {
+  ): Promise<LoopCheckResult> {
     // 1. Check if author is the bot
     if (this.isBotUser(author)) {
       return { shouldIgnore: true, reason: 'bot_author' };
     }
 
     // 2. Check for duplicate event (webhook retry)
-    if (this.processedEvents.has(eventId)) {
+    if (await this.store.get(EVENT_PREFIX + eventId)) {
       return { shouldIgnore: true, reason: 'duplicate_event' };
     }
 
-    // 3. Check cooldown period
-    const recent = this.recentResponses.get(issueKey);
-    if (recent && Date.now() - recent.timestamp < this.cooldownMs) {
+    // 3. Check cooldown period (entries expire with the cooldown)
+    if (await this.store.get(RESPONSE_PREFIX + issueKey)) {
       return { shouldIgnore: true, reason: 'recent_response' };
     }
 
@@ -63,36 +84,45 @@ export class LoopPrevention {
   /**
    * Mark an event as processed
    */
-  markProcessed(eventId: string): void {
-    this.processedEvents.add(eventId);
-
-    // Cleanup old events (keep last N)
-    if (this.processedEvents.size > this.maxTracked) {
-      const toDelete = Array.from(this.processedEvents).slice(
-        0,
-        this.processedEvents.size - this.maxTracked
-      );
-      toDelete.forEach((id) => this.processedEvents.delete(id));
-    }
+  async markProcessed(eventId: string): Promise<void> {
+    await this.store.set(EVENT_PREFIX + eventId, String(Date.now()), this.eventTtlMs);
   }
 
   /**
    * Record a response to an issue
    */
-  recordResponse(issueKey: string, eventId: string): void {
-    this.recentResponses.set(issueKey, {
+  async recordResponse(issueKey: string, eventId: string): Promise<void> {
+    const response: RecentResponse = {
       issueNumber: this.extractIssueNumber(issueKey),
       timestamp: Date.now(),
       eventId,
-    });
-
-    // Cleanup old responses
-    if (this.recentResponses.size > this.maxTracked) {
-      const entries = Array.from(this.recentResponses.entries());
-      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-      const toDelete = entries.slice(0, entries.length - this.maxTracked);
-      toDelete.forEach(([key]) => this.recentResponses.delete(key));
-    }
+    };
+    await this.store.set(RESPONSE_PREFIX + issueKey, JSON.stringify(response), this.cooldownMs);
+  }
+
+  /**
+   * Whether the duplicate notice was already posted on an issue
+   * Duplicate detection runs before the job can fail, so queue retries would repeat it
+   */
+  async hasDuplicateNotice(issueKey: string): Promise<boolean> {
+    return (await this.store.get(DUPLICATE_PREFIX + issueKey)) !== null;
+  }
+
+  async recordDuplicateNotice(issueKey: string): Promise<void> {
+    await this.store.set(DUPLICATE_PREFIX + issueKey, String(Date.now()), this.eventTtlMs);
+  }
+
+  /**
+   * Draft PR already opened by /fix for a delivery
+   * The reply can still fail after the PR is open, and a queue retry must not open another
+   */
+  async fixPullRequest(eventId: string): Promise<{ number: number; url: string } | null> {
+    const value = await this.store.get(FIX_PREFIX + eventId);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async recordFixPullRequest(eventId: string, pullRequest: { number: number; url: string }): Promise<void> {
+    await this.store.set(FIX_PREFIX + eventId, JSON.stringify(pullRequest), this.eventTtlMs);
   }
 
   /**
@@ -107,25 +137,25 @@ export class LoopPrevention {
   }
 
   private extractIssueNumber(issueKey: string): number {
-    const match = issueKey.match(/#(\d+)$/);
+    const match = issueKey.match(/#(\d+)(?::|$)/);
     return match?.[1] ? parseInt(match[1], 10) : 0;
   }
 
   /**
    * Get statistics
    */
-  stats(): { processedEvents: number; trackedResponses: number } {
-    return {
-      processedEvents: this.processedEvents.size,
-      trackedResponses: this.recentResponses.size,
-    };
+  async stats(): Promise<{ processedEvents: number; trackedResponses: number }> {
+    const [processedEvents, trackedResponses] = await Promise.all([
+      this.store.count(EVENT_PREFIX),
+      this.store.count(RESPONSE_PREFIX),
+    ]);
+    return { processedEvents, trackedResponses };
   }
 
   /**
    * Clear all tracking (for testing)
    */
-  clear(): void {
-    this.processedEvents.clear();
-    this.recentResponses.clear();
+  async clear(): Promise<void> {
+    await this.store.clear();
   }
 }
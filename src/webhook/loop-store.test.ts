@@ -0,0 +1,65 @@
+import { describe, expect, test } from 'bun:test';
+import { MemoryRedisClient, RedisLoopStore, createLoopStateStore } from './loop-store';
+
+describe('RedisLoopStore', () => {
+  test('stores values under its namespace', async () => {
+    const client = new MemoryRedisClient();
+    const store = new RedisLoopStore(client, 'test:');
+
+    await store.set('event:1', 'processed', 60_000);
+
+    expect(await store.get('event:1')).toBe('processed');
+    expect(await client.get('test:event:1')).toBe('processed');
+    expect(await store.get('event:2')).toBeNull();
+  });
+
+  test('expires entries after their TTL', async () => {
+    const store = new RedisLoopStore(new MemoryRedisClient());
+
+    await store.set('event:1', 'processed', 10);
+    await Bun.sleep(20);
+
+    expect(await store.get('event:1')).toBeNull();
+    expect(await store.count('event:')).toBe(0);
+  });
+
+  test('counts live keys by prefix', async () => {
+    const store = new RedisLoopStore(new MemoryRedisClient());
+
+    await store.set('response:o/r#1:a', '1', 60_000);
+    await store.set('response:o/r#1:b', '1', 60_000);
+    await store.set('response:o/r#2:a', '1', 60_000);
+
+    expect(await store.count('response:o/r#1:')).toBe(2);
+    expect(await store.count('response:')).toBe(3);
+  });
+
+  test('clear only removes its own namespace', async () => {
+    const client = new MemoryRedisClient();
+    const store = new RedisLoopStore(client, 'frentis:loop:');
+    await client.set('other:key', 'keep', 'PX', 60_000);
+    await store.set('event:1', 'processed', 60_000);
+
+    await store.clear();
+
+    expect(await store.get('event:1')).toBeNull();
+    expect(await client.get('other:key')).toBe('keep');
+  });
+});
+
+describe('createLoopStateStore', () => {
+  const config = { backend: 'redis' as const, sqlitePath: ':memory:', eventTtlMs: 1000 };
+
+  test('uses an injected Redis client', async () => {
+    const client = new MemoryRedisClient();
+    const store = createLoopStateStore(config, client);
+
+    await store.set('event:1', 'processed', 60_000);
+
+    expect(await client.keys('*')).toEqual(['frentis:loop:event:1']);
+  });
+
+  test('requires a Redis URL without an injected client', () => {
+    expect(() => createLoopStateStore(config)).toThrow('REDIS_URL');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Loop Prevention State Stores
+ * Pluggable TTL-based storage for processed deliveries and recent responses
+ */
+
+import { RedisClient } from 'bun';
+import type { Database } from 'bun:sqlite';
+import { openDatabase } from '../storage/database';
+import type { LoopStoreConfig } from '../types';
+
+export interface LoopStateStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlMs: number): Promise<void>;
+  count(prefix: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory store (state is lost on restart)
+ */
+export class MemoryLoopStore implements LoopStateStore {
+  private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+  private lastSweep = Date.now();
+
+  // Sweep expired entries at most this often (ms)
+  private readonly sweepIntervalMs = 60_000;
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+    this.sweep();
+  }
+
+  async count(prefix: string): Promise<number> {
+    const now = Date.now();
+    let count = 0;
+    for (const [key, entry] of this.entries) {
+      if (key.startsWith(prefix) && entry.expiresAt > now) count++;
+    }
+    return count;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < this.sweepIntervalMs) return;
+    this.lastSweep = now;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * SQLite file store (survives restarts, shared by processes on the same host)
+ */
+export class SqliteLoopStore implements LoopStateStore {
+  private db: Database;
+  private lastSweep = 0;
+
+  private readonly sweepIntervalMs = 60_000;
+
+  constructor(dbPath: string) {
+    this.db = openDatabase(dbPath);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS loop_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS loop_state_expires_at ON loop_state (expires_at);
+    `);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const row = this.db
+      .query<{ value: string }, [string, number]>(
+        'SELECT value FROM loop_state WHERE key = ? AND expires_at > ?'
+      )
+      .get(key, Date.now());
+    return row?.value ?? null;
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.db
+      .query('INSERT OR REPLACE INTO loop_state (key, value, expires_at) VALUES (?, ?, ?)')
+      .run(key, value, Date.now() + ttlMs);
+    this.sweep();
+  }
+
+  async count(prefix: string): Promise<number> {
+    const row = this.db
+      .query<{ count: number }, [string, number]>(
+        'SELECT COUNT(*) AS count FROM loop_state WHERE key LIKE ? AND expires_at > ?'
+      )
+      .get(`${prefix}%`, Date.now());
+    return row?.count ?? 0;
+  }
+
+  async clear(): Promise<void> {
+    this.db.exec('DELETE FROM loop_state');
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < this.sweepIntervalMs) return;
+    this.lastSweep = now;
+    this.db.query('DELETE FROM loop_state WHERE expires_at <= ?').run(now);
+  }
+}
+
+/**
+ * Minimal Redis command surface used by RedisLoopStore
+ * Satisfied by Bun's RedisClient, ioredis, or a local in-memory stub
+ */
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, px: 'PX', milliseconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+}
+
+/**
+ * Redis-compatible store (shared across instances, expiry handled by Redis)
+ */
+export class RedisLoopStore implements LoopStateStore {
+  private client: RedisLikeClient;
+  private namespace: string;
+
+  constructor(client: RedisLikeClient, namespace = 'frentis:loop:') {
+    this.client = client;
+    this.namespace = namespace;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(this.namespace + key);
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.set(this.namespace + key, value, 'PX', ttlMs);
+  }
+
+  async count(prefix: string): Promise<number> {
+    const keys = await this.client.keys(`${this.namespace}${prefix}*`);
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.client.keys(`${this.namespace}*`);
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+  }
+}
+
+/**
+ * In-process stand-in for a Redis server (PX expiry and glob KEYS only)
+ * For local development and tests without a Redis instance
+ */
+export class MemoryRedisClient implements RedisLikeClient {
+  private entries: Map<string, { value: string; expiresAt: number }> = new Map();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, _px: 'PX', milliseconds: number): Promise<'OK'> {
+    this.entries.set(key, { value, expiresAt: Date.now() + milliseconds });
+    return 'OK';
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return keys.filter((key) => this.entries.delete(key)).length;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    const regex = new RegExp(`^${source}$`);
+    const now = Date.now();
+    return [...this.entries]
+      .filter(([key, entry]) => entry.expiresAt > now && regex.test(key))
+      .map(([key]) => key);
+  }
+}
+
+// Factory function to create the configured store
+// A Redis client can be injected (e.g. MemoryRedisClient); otherwise one is built from redisUrl
+export function createLoopStateStore(
+  config: LoopStoreConfig,
+  redisClient?: RedisLikeClient
+): LoopStateStore {
+  switch (config.backend) {
+    case 'sqlite':
+      return new SqliteLoopStore(config.sqlitePath);
+    case 'redis':
+      if (redisClient) return new RedisLoopStore(redisClient);
+      if (!config.redisUrl) {
+        throw new Error('REDIS_URL is required when LOOP_STORE=redis');
+      }
+      return new RedisLoopStore(new RedisClient(config.redisUrl));
+    case 'memory':
+    default:
+      return new MemoryLoopStore();
+  }
+}
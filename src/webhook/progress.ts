@@ -0,0 +1,178 @@
+/**
+ * Progress Feedback
+ * Shows that a mention was picked up while the analysis runs: a 👀 reaction on the
+ * triggering issue / comment, an optional placeholder comment replaced by the answer,
+ * and 🚀 / 😕 when done
+ */
+
+import type { OctokitClient } from '../github/client';
+import type { IssueContext, ProgressConfig, ReactionContent, ReactionSubject } from '../types';
+import type { ResponseText } from '../claude/response-text';
+
+export const DEFAULT_PROGRESS: ProgressConfig = {
+  reactions: true,
+  placeholder: false,
+};
+
+/**
+ * Hidden marker tying a placeholder to its webhook delivery, so a retried job reuses it
+ */
+function placeholderMarker(eventId: string): string {
+  return `<!-- frentis:placeholder event=${eventId} -->`;
+}
+
+/**
+ * Placeholders aren't part of the conversation the answer is based on
+ */
+export function isPlaceholderComment(body: string): boolean {
+  return body.startsWith('<!-- frentis:placeholder ');
+}
+
+export class ProgressReporter {
+  private client: OctokitClient;
+  private context: IssueContext;
+  private subject: ReactionSubject;
+  private config: ProgressConfig;
+  private eventId: string;
+  private text: ResponseText;
+  // Where answers go when they aren't issue comments (review threads, discussions)
+  private post?: (body: string) => Promise<{ id: number }>;
+  private eyesReactionId?: number;
+  private placeholderId?: number;
+  private replied = false;
+
+  constructor(
+    client: OctokitClient,
+    context: IssueContext,
+    subject: ReactionSubject,
+    config: ProgressConfig,
+    eventId: string,
+    text: ResponseText,
+    post?: (body: string) => Promise<{ id: number }>
+  ) {
+    this.client = client;
+    this.context = context;
+    this.subject = subject;
+    this.config = config;
+    this.eventId = eventId;
+    this.text = text;
+    this.post = post;
+  }
+
+  /**
+   * React with 👀 and post the placeholder (reusing one left by an earlier attempt)
+   * Placeholders are issue comments, so there are none when answers are posted elsewhere
+   * Feedback is best-effort: failures are logged, never thrown
+   */
+  async start(): Promise<void> {
+    const { owner, name } = this.context.repository;
+
+    if (this.config.reactions) {
+      this.eyesReactionId = await this.attempt('add 👀 reaction', () => this.react('eyes'));
+    }
+
+    if (this.config.placeholder && !this.post) {
+      this.placeholderId = await this.attempt('post placeholder', async () => {
+        const marker = placeholderMarker(this.eventId);
+        const comments = await this.client.getIssueComments(owner, name, this.context.issue.number);
+        const existing = comments.find((c) => this.client.isBotUser(c.author) && c.body.startsWith(marker));
+        if (existing) return existing.id;
+
+        const result = await this.client.createComment(
+          owner,
+          name,
+          this.context.issue.number,
+          `${marker}\n${this.text.placeholder}`
+        );
+        return result.id;
+      });
+    }
+  }
+
+  /**
+   * Post the answer, replacing the placeholder if there is one
+   */
+  async reply(body: string): Promise<{ id: number }> {
+    const { owner, name } = this.context.repository;
+
+    if (this.post) return this.post(body);
+
+    if (this.placeholderId !== undefined && !this.replied) {
+      await this.client.updateComment(owner, name, this.placeholderId, body);
+      this.replied = true;
+      return { id: this.placeholderId };
+    }
+
+    return this.client.createComment(owner, name, this.context.issue.number, body);
+  }
+
+  /**
+   * Swap 👀 for 🚀; a placeholder that wasn't used for the answer (e.g. the answer
+   * went into a review or the sticky comment) is deleted
+   */
+  async succeed(): Promise<void> {
+    await this.removePlaceholder();
+    await this.finishReaction('rocket');
+  }
+
+  /**
+   * Report a failure to the user: on the last attempt swap 👀 for 😕 and post an error
+   * message (in the placeholder if there is one); earlier attempts only note the retry
+   */
+  async fail(finalAttempt: boolean): Promise<void> {
+    const { owner, name } = this.context.repository;
+
+    if (!finalAttempt) {
+      if (this.placeholderId !== undefined) {
+        const marker = placeholderMarker(this.eventId);
+        await this.attempt('update placeholder', () =>
+          this.client.updateComment(owner, name, this.placeholderId!, `${marker}\n${this.text.retrying}`)
+        );
+      }
+      return;
+    }
+
+    await this.attempt('post error message', () => this.reply(this.text.failed));
+    await this.finishReaction('confused');
+  }
+
+  private async removePlaceholder(): Promise<void> {
+    if (this.placeholderId === undefined || this.replied) return;
+
+    const { owner, name } = this.context.repository;
+    const id = this.placeholderId;
+    await this.attempt('delete placeholder', () => this.client.deleteComment(owner, name, id));
+    this.placeholderId = undefined;
+  }
+
+  private async finishReaction(content: ReactionContent): Promise<void> {
+    if (!this.config.reactions) return;
+
+    const { owner, name } = this.context.repository;
+    const eyes = this.eyesReactionId;
+    if (eyes !== undefined) {
+      await this.attempt('remove 👀 reaction', () =>
+        this.client.deleteReaction(owner, name, this.subject, { id: eyes, content: 'eyes' })
+      );
+      this.eyesReactionId = undefined;
+    }
+    await this.attempt(`add ${content} reaction`, () => this.react(content));
+  }
+
+  private react(content: ReactionContent): Promise<number> {
+    const { owner, name } = this.context.repository;
+    return this.client.addReaction(owner, name, this.subject, content);
+  }
+
+  private async attempt<T>(action: string, fn: () => Promise<T>): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (error) {
+      console.warn(
+        `[PROGRESS] Failed to ${action} on ${this.context.repository.full_name}#${this.context.issue.number}:`,
+        error
+      );
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import { TriggerAuthorizer, deniedMessage, meetsPermission } from './trigger-policy';
+import { responseText } from '../claude/response-text';
+import type { OctokitClient } from '../github/client';
+import type { IssueContext } from '../types';
+
+const repository: IssueContext['repository'] = {
+  owner: 'acme',
+  name: 'app',
+  full_name: 'acme/app',
+  default_branch: 'main',
+  clone_url: 'https://github.com/acme/app.git',
+};
+
+/**
+ * Client answering membership / permission lookups from fixed tables, counting calls
+ */
+function fakeClient(members: string[], permissions: Record<string, string> = {}) {
+  const calls = { member: 0, permission: 0 };
+  const client = {
+    isOrgMember: async (_org: string, user: string) => {
+      calls.member++;
+      return members.includes(user);
+    },
+    getCollaboratorPermission: async (_owner: string, _repo: string, user: string) => {
+      calls.permission++;
+      return permissions[user] ?? 'none';
+    },
+  } as unknown as OctokitClient;
+  return { client, calls };
+}
+
+describe('TriggerAuthorizer.authorize', () => {
+  test('anyone mode allows everyone not on the deny list', async () => {
+    const { client } = fakeClient([]);
+    const authorizer = new TriggerAuthorizer();
+    const policy = { mode: 'anyone' as const, deny: ['Spammer'] };
+
+    expect((await authorizer.authorize(policy, repository, 'octocat', client)).allowed).toBe(true);
+    expect(await authorizer.authorize(policy, repository, 'spammer', client)).toEqual({
+      allowed: false,
+      reason: 'deny list',
+    });
+  });
+
+  test('the deny list wins over the allow list', async () => {
+    const { client } = fakeClient([]);
+    const policy = { mode: 'anyone' as const, allow: ['octocat'], deny: ['octocat'] };
+
+    const decision = await new TriggerAuthorizer().authorize(policy, repository, 'octocat', client);
+    expect(decision.allowed).toBe(false);
+  });
+
+  test('allowlist mode only allows listed users', async () => {
+    const { client, calls } = fakeClient(['octocat']);
+    const authorizer = new TriggerAuthorizer();
+    const policy = { mode: 'allowlist' as const, allow: ['Hubot'] };
+
+    expect((await authorizer.authorize(policy, repository, 'hubot', client)).allowed).toBe(true);
+    expect((await authorizer.authorize(policy, repository, 'octocat', client)).allowed).toBe(false);
+    const empty = await authorizer.authorize({ mode: 'allowlist' }, repository, 'hubot', client);
+    expect(empty.allowed).toBe(false);
+    expect(calls).toEqual({ member: 0, permission: 0 });
+  });
+
+  test('org-members mode checks membership and caches the lookup', async () => {
+    const { client, calls } = fakeClient(['octocat']);
+    const authorizer = new TriggerAuthorizer();
+    const policy = { mode: 'org-members' as const };
+
+    expect((await authorizer.authorize(policy, repository, 'octocat', client)).allowed).toBe(true);
+    expect((await authorizer.authorize(policy, repository, 'OctoCat', client)).allowed).toBe(true);
+    expect((await authorizer.authorize(policy, repository, 'stranger', client)).allowed).toBe(false);
+    expect(calls.member).toBe(2);
+  });
+
+  test('collaborators mode requires the minimum permission', async () => {
+    const { client } = fakeClient([], { triager: 'triage', writer: 'write', admin: 'admin' });
+    const authorizer = new TriggerAuthorizer();
+
+    const byDefault = { mode: 'collaborators' as const };
+    expect((await authorizer.authorize(byDefault, repository, 'triager', client)).allowed).toBe(false);
+    expect((await authorizer.authorize(byDefault, repository, 'writer', client)).allowed).toBe(true);
+
+    const triage = { mode: 'collaborators' as const, minPermission: 'triage' as const };
+    expect(await authorizer.authorize(triage, repository, 'triager', client)).toEqual({
+      allowed: true,
+      reason: 'permission triage (requires triage)',
+    });
+    expect((await authorizer.authorize(triage, repository, 'stranger', client)).allowed).toBe(false);
+  });
+});
+
+describe('meetsPermission', () => {
+  test('ranks permissions and rejects unknown ones', () => {
+    expect(meetsPermission('admin', 'write')).toBe(true);
+    expect(meetsPermission('maintain', 'maintain')).toBe(true);
+    expect(meetsPermission('read', 'triage')).toBe(false);
+    expect(meetsPermission('unknown', 'read')).toBe(false);
+  });
+});
+
+describe('deniedMessage', () => {
+  const text = responseText('en');
+
+  test('names who may call the bot for each mode', () => {
+    expect(deniedMessage({ mode: 'org-members' }, 'octocat', text)).toBe(
+      text.denied('octocat', text.deniedOrgMembers)
+    );
+    expect(deniedMessage({ mode: 'collaborators', minPermission: 'maintain' }, 'octocat', text)).toBe(
+      text.denied('octocat', text.deniedCollaborators('maintain'))
+    );
+    expect(deniedMessage({ mode: 'allowlist' }, 'octocat', text)).toBe(
+      text.denied('octocat', text.deniedAllowList)
+    );
+  });
+
+  test('tells deny-listed users they are blocked rather than who is allowed', () => {
+    expect(deniedMessage({ mode: 'anyone', deny: ['OctoCat'] }, 'octocat', text)).toBe(
+      text.deniedUser('octocat')
+    );
+    expect(deniedMessage({ mode: 'org-members', deny: ['octocat'] }, 'octocat', text)).toBe(
+      text.deniedUser('octocat')
+    );
+  });
+});
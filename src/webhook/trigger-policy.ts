@@ -0,0 +1,129 @@
+/**
+ * Trigger Policy
+ * Decides whether a user may trigger the bot by mention, per repo
+ */
+
+import type { OctokitClient } from '../github/client';
+import type { IssueContext, RepoPermission, TriggerPolicyConfig } from '../types';
+import type { ResponseText } from '../claude/response-text';
+
+export const DEFAULT_TRIGGER_POLICY: TriggerPolicyConfig = { mode: 'anyone' };
+
+const DEFAULT_MIN_PERMISSION: RepoPermission = 'write';
+
+const PERMISSION_RANK: Record<string, number> = {
+  none: 0,
+  read: 1,
+  triage: 2,
+  write: 3,
+  maintain: 4,
+  admin: 5,
+};
+
+// Permissions and memberships change rarely, recheck at most every 5 minutes
+const LOOKUP_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface TriggerDecision {
+  allowed: boolean;
+  reason: string; // for logs
+}
+
+/**
+ * Refusal comment for a denied mention
+ */
+export function deniedMessage(
+  policy: TriggerPolicyConfig,
+  username: string,
+  text: ResponseText
+): string {
+  // The deny list wins over the mode, so saying who may call the bot would be misleading
+  if (isListed(policy.deny, username)) {
+    return text.deniedUser(username);
+  }
+
+  switch (policy.mode) {
+    case 'org-members':
+      return text.denied(username, text.deniedOrgMembers);
+    case 'collaborators':
+      return text.denied(
+        username,
+        text.deniedCollaborators(policy.minPermission ?? DEFAULT_MIN_PERMISSION)
+      );
+    case 'allowlist':
+    case 'anyone':
+      return text.denied(username, text.deniedAllowList);
+  }
+}
+
+/**
+ * Whether a repo permission (as returned by the collaborators API) meets a minimum
+ */
+export function meetsPermission(permission: string, required: RepoPermission): boolean {
+  return (PERMISSION_RANK[permission] ?? 0) >= PERMISSION_RANK[required]!;
+}
+
+// GitHub usernames are case-insensitive
+function isListed(list: string[] | undefined, username: string): boolean {
+  const user = username.toLowerCase();
+  return list?.some((u) => u.toLowerCase() === user) ?? false;
+}
+
+export class TriggerAuthorizer {
+  // Permission / membership lookups per repo+user
+  private cache: Map<string, { value: string | boolean; fetchedAt: number }> = new Map();
+
+  /**
+   * Check a user against the policy: deny list, allow list, then the mode
+   */
+  async authorize(
+    policy: TriggerPolicyConfig,
+    repository: IssueContext['repository'],
+    username: string,
+    client: OctokitClient
+  ): Promise<TriggerDecision> {
+    const user = username.toLowerCase();
+    if (isListed(policy.deny, username)) {
+      return { allowed: false, reason: 'deny list' };
+    }
+    if (isListed(policy.allow, username)) {
+      return { allowed: true, reason: 'allow list' };
+    }
+
+    switch (policy.mode) {
+      case 'anyone':
+        return { allowed: true, reason: 'anyone' };
+
+      case 'allowlist':
+        return { allowed: false, reason: 'not on the allow list' };
+
+      case 'org-members': {
+        const member = await this.lookup(`${repository.owner}:member:${user}`, () =>
+          client.isOrgMember(repository.owner, username)
+        );
+        return { allowed: member === true, reason: member ? 'org member' : 'not an org member' };
+      }
+
+      case 'collaborators': {
+        const required = policy.minPermission ?? DEFAULT_MIN_PERMISSION;
+        const permission = String(
+          await this.lookup(`${repository.full_name}:permission:${user}`, () =>
+            client.getCollaboratorPermission(repository.owner, repository.name, username)
+          )
+        );
+        const allowed = meetsPermission(permission, required);
+        return { allowed, reason: `permission ${permission} (requires ${required})` };
+      }
+    }
+  }
+
+  private async lookup<T extends string | boolean>(key: string, fetch: () => Promise<T>): Promise<T> {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < LOOKUP_CACHE_TTL_MS) {
+      return cached.value as T;
+    }
+
+    const value = await fetch();
+    this.cache.set(key, { value, fetchedAt: Date.now() });
+    return value;
+  }
+}
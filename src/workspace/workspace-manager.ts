@@ -0,0 +1,225 @@
+/**
+ * Workspace Manager
+ * Managed checkouts for codebase-aware analysis: cloned on demand, fetched before use,
+ * handed to each job as its own worktree, and evicted least-recently-used when over the disk quota
+ */
+
+import { $ } from 'bun';
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import type { OctokitClient } from '../github/client';
+import type { IssueContext, RepoConfig, WorkspaceConfig } from '../types';
+
+export interface CheckoutOptions {
+  pullNumber?: number; // check out the PR head instead of the default branch
+}
+
+// Per-job worktrees, next to the owner directories
+const WORKTREES_DIR = '.worktrees';
+
+interface WorkspaceEntry {
+  path: string;
+  bytes: number;
+  lastUsed: number;
+}
+
+export class WorkspaceManager {
+  private config: WorkspaceConfig;
+  private entries: Map<string, WorkspaceEntry> = new Map();
+  // Tail of the per-repo lock chain
+  private locks: Map<string, Promise<void>> = new Map();
+  // Worktrees in use per repo; their clone must not be evicted
+  private active: Map<string, number> = new Map();
+  private loaded?: Promise<void>;
+
+  constructor(config: WorkspaceConfig) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Run fn with an up-to-date worktree of the repo, removed afterwards
+   * The repo's lock covers only updating the clone and adding or removing the worktree,
+   * so jobs on the same repo run side by side
+   * A configured localPath is used as-is; fn gets undefined when no checkout is available
+   */
+  async withCheckout<T>(
+    config: RepoConfig,
+    repository: IssueContext['repository'],
+    client: OctokitClient,
+    fn: (repoPath: string | undefined) => Promise<T>,
+    options: CheckoutOptions = {}
+  ): Promise<T> {
+    if (config.localPath) return fn(config.localPath);
+    if (!this.config.enabled) return fn(undefined);
+
+    await (this.loaded ??= this.load());
+    const repoKey = repository.full_name;
+
+    const checkout = await this.withLock(repoKey, async () => {
+      try {
+        return await this.prepare(repository, client, options);
+      } catch (error) {
+        // Answer without the codebase rather than failing the job
+        console.warn(`[WORKSPACE] Checkout failed for ${repoKey}:`, error);
+        return undefined;
+      }
+    });
+    if (!checkout) return fn(undefined);
+
+    this.active.set(repoKey, (this.active.get(repoKey) ?? 0) + 1);
+    try {
+      return await fn(checkout.worktree);
+    } finally {
+      await this.withLock(repoKey, () => removeWorktree(checkout.repoPath, checkout.worktree));
+      const remaining = this.active.get(repoKey)! - 1;
+      if (remaining > 0) this.active.set(repoKey, remaining);
+      else this.active.delete(repoKey);
+
+      await this.touch(repoKey, checkout.repoPath);
+      await this.enforceQuota(repoKey);
+    }
+  }
+
+  /**
+   * Clone if needed, fetch the target ref, and add a detached worktree for it
+   */
+  private async prepare(
+    repository: IssueContext['repository'],
+    client: OctokitClient,
+    options: CheckoutOptions
+  ): Promise<{ repoPath: string; worktree: string }> {
+    const { owner, name, default_branch } = repository;
+    const repoPath = join(this.config.dir, owner, name);
+    const ref = options.pullNumber
+      ? `refs/pull/${options.pullNumber}/head`
+      : `refs/heads/${default_branch}`;
+
+    const cloned = await exists(join(repoPath, '.git'));
+    if (!cloned) {
+      console.log(`[WORKSPACE] Cloning ${owner}/${name}`);
+      await rm(repoPath, { recursive: true, force: true });
+      await mkdir(join(this.config.dir, owner), { recursive: true });
+      try {
+        await client.cloneRepo(owner, name, repoPath);
+      } catch (error) {
+        await rm(repoPath, { recursive: true, force: true });
+        throw error;
+      }
+    }
+
+    // A fresh clone is already at the default branch
+    let target = 'HEAD';
+    if (cloned || options.pullNumber) {
+      await client.fetchRef(owner, name, repoPath, ref);
+      target = 'FETCH_HEAD';
+    }
+
+    const worktree = join(this.config.dir, WORKTREES_DIR, `${owner}-${name}-${randomUUID().slice(0, 8)}`);
+    // Worktrees left by a crashed process are gone from disk; drop their metadata
+    await $`git -C ${repoPath} worktree prune`.quiet();
+    await $`git -C ${repoPath} worktree add --detach ${worktree} ${target}`.quiet();
+
+    return { repoPath, worktree };
+  }
+
+  /**
+   * Evict least-recently-used checkouts until under the quota
+   * The checkout just used and checkouts that are locked or have worktrees in use are kept
+   */
+  private async enforceQuota(currentKey: string): Promise<void> {
+    let total = [...this.entries.values()].reduce((sum, e) => sum + e.bytes, 0);
+    if (total <= this.config.maxBytes) return;
+
+    const candidates = [...this.entries.entries()]
+      .filter(([key]) => key !== currentKey && !this.locks.has(key) && !this.active.has(key))
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    for (const [key, entry] of candidates) {
+      if (total <= this.config.maxBytes) break;
+
+      console.log(`[WORKSPACE] Evicting ${key} (${Math.round(entry.bytes / 1024 / 1024)}MB)`);
+      this.entries.delete(key);
+      await rm(entry.path, { recursive: true, force: true });
+      total -= entry.bytes;
+    }
+
+    if (total > this.config.maxBytes) {
+      console.warn(`[WORKSPACE] Still over quota after eviction (${Math.round(total / 1024 / 1024)}MB)`);
+    }
+  }
+
+  private async touch(repoKey: string, repoPath: string): Promise<void> {
+    this.entries.set(repoKey, {
+      path: repoPath,
+      bytes: await diskUsage(repoPath),
+      lastUsed: Date.now(),
+    });
+  }
+
+  /**
+   * Pick up checkouts left by a previous run, using mtime as last use
+   * Worktrees from a previous run are no longer in use and are removed
+   */
+  private async load(): Promise<void> {
+    await rm(join(this.config.dir, WORKTREES_DIR), { recursive: true, force: true });
+    await mkdir(this.config.dir, { recursive: true });
+
+    for (const owner of await readdir(this.config.dir)) {
+      const ownerDir = join(this.config.dir, owner);
+      if (!(await stat(ownerDir)).isDirectory()) continue;
+
+      for (const name of await readdir(ownerDir)) {
+        const repoPath = join(ownerDir, name);
+        if (!(await exists(join(repoPath, '.git')))) continue;
+
+        this.entries.set(`${owner}/${name}`, {
+          path: repoPath,
+          bytes: await diskUsage(repoPath),
+          lastUsed: (await stat(repoPath)).mtimeMs,
+        });
+      }
+    }
+  }
+
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const current = previous.then(() => held);
+    this.locks.set(key, current);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.locks.get(key) === current) this.locks.delete(key);
+    }
+  }
+}
+
+async function removeWorktree(repoPath: string, worktree: string): Promise<void> {
+  try {
+    await $`git -C ${repoPath} worktree remove --force ${worktree}`.quiet();
+  } catch (error) {
+    console.warn(`[WORKSPACE] Failed to remove worktree ${worktree}:`, error);
+    await rm(worktree, { recursive: true, force: true });
+  }
+}
+
+async function exists(path: string): Promise<boolean> {
+  return stat(path).then(
+    () => true,
+    () => false
+  );
+}
+
+async function diskUsage(path: string): Promise<number> {
+  const output = await $`du -sk ${path}`.quiet().text();
+  return parseInt(output, 10) * 1024;
+}